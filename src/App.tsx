@@ -5,6 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./contexts/AuthContext";
+import { useZoneGeofence } from "./hooks/use-zone-geofence";
 import SignupPage from "./components/SignupPage";
 import ProfileSetupPage from "./components/ProfileSetupPage";
 import SwipePage from "./components/SwipePage";
@@ -15,14 +16,23 @@ import Profile from "./pages/Profile";
 import UserProfile from "./pages/UserProfile";
 import Settings from "./pages/Settings";
 import HotZones from "./pages/HotZones";
+import HotZoneDetail from "./pages/HotZoneDetail";
 import Likers from "./pages/Likers";
 import Index from "./pages/Index";
 import Dashboard from "./pages/Dashboard";
 import Help from "./pages/Help";
 import Report from "./pages/Report";
+import AdminReports from "./pages/admin/AdminReports";
+import Suspended from "./pages/Suspended";
 
 const queryClient = new QueryClient();
 
+// Runs the opt-in hot zone geofence wherever the user is in the app
+const ZoneGeofence = () => {
+  useZoneGeofence();
+  return null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <BrowserRouter>
@@ -30,6 +40,7 @@ const App = () => (
         <TooltipProvider>
           <Toaster />
           <Sonner />
+          <ZoneGeofence />
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/signup" element={<SignupPage />} />
@@ -46,6 +57,9 @@ const App = () => (
             <Route path="/help" element={<Help />} />
             <Route path="/report" element={<Report />} />
             <Route path="/hot-zones" element={<HotZones />} />
+            <Route path="/hot-zone/:id" element={<HotZoneDetail />} />
+            <Route path="/admin/reports" element={<AdminReports />} />
+            <Route path="/suspended" element={<Suspended />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -18,14 +18,14 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children, hideNav = false, matche
     if (path === '/swipe' && pathname === '/swipe') return true;
     if (path === '/matches' && pathname.includes('/matches')) return true;
     if (path === '/profile' && pathname.includes('/profile')) return true;
-    if (path === '/zones' && pathname.includes('/zone')) return true;
+    if (path === '/hot-zones' && pathname.includes('/hot-zone')) return true;
     return false;
   };
   
   const navItems = [
     { icon: <Heart size={24} />, label: 'Swipe', path: '/swipe' },
     { icon: <MessageCircle size={24} />, label: 'Matches', path: '/matches', count: matchesCount },
-    { icon: <Map size={24} />, label: 'Hot Zones', path: '/zones' },
+    { icon: <Map size={24} />, label: 'Hot Zones', path: '/hot-zones' },
     { icon: <User size={24} />, label: 'Profile', path: '/profile' },
   ];
 
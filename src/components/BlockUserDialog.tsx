@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle
+} from '@/components/ui/dialog';
+import { blockUser } from '@/lib/api';
+
+interface BlockUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // users.id of the person being blocked
+  user: { id: string; name: string };
+  onBlocked?: () => void;
+}
+
+/**
+ * Confirms blocking someone and refreshes every list they could show up in
+ */
+const BlockUserDialog: React.FC<BlockUserDialogProps> = ({ open, onOpenChange, user, onBlocked }) => {
+  const queryClient = useQueryClient();
+  const [isBlocking, setIsBlocking] = useState(false);
+
+  const handleBlock = async () => {
+    setIsBlocking(true);
+    
+    try {
+      await blockUser(user.id);
+      
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['matches'] }),
+        queryClient.invalidateQueries({ queryKey: ['likers'] }),
+        queryClient.invalidateQueries({ queryKey: ['potential-matches'] }),
+        queryClient.invalidateQueries({ queryKey: ['blocked-users'] })
+      ]);
+      
+      onOpenChange(false);
+      toast.success(`${user.name} has been blocked`);
+      onBlocked?.();
+    } catch (error) {
+      toast.error('Failed to block user');
+    } finally {
+      setIsBlocking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-secondary border-princeton-orange/20" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="text-princeton-white">Block {user.name}?</DialogTitle>
+          <DialogDescription className="text-princeton-white/70">
+            They won't be able to see your profile or message you, and you won't see them anywhere in the app.
+            They won't be told. You can unblock them later in Settings.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <DialogFooter>
+          <Button 
+            variant="outline" 
+            onClick={handleBlock}
+            disabled={isBlocking}
+            className="bg-red-500 hover:bg-red-600 text-white"
+          >
+            {isBlocking ? 'Blocking...' : 'Block'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BlockUserDialog;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { CampusBuilding, HotZone } from '@/types/database';
+import {
+  CAMPUS_GREENS, CAMPUS_LAKE, CAMPUS_STREETS, MAP_HEIGHT, MAP_WIDTH,
+  heatBubbleRadius, isOnCampusMap, projectToMap, toSvgPoints
+} from '@/lib/campus-map';
+
+interface CampusMapProps {
+  zones: HotZone[];
+  buildings: CampusBuilding[];
+  // Where the user is right now, if they share their location
+  position?: { latitude: number; longitude: number } | null;
+  onSelectZone: (zoneId: string) => void;
+}
+
+/**
+ * Campus map of the hot zones, drawn from a bundled SVG base so it works offline.
+ * Each zone gets a heat bubble sized by its occupancy and a marker that opens the zone.
+ */
+const CampusMap: React.FC<CampusMapProps> = ({ zones, buildings, position, onSelectZone }) => {
+  const mappedZones = zones.filter(zone =>
+    zone.latitude != null && zone.longitude != null && isOnCampusMap(zone.latitude, zone.longitude)
+  );
+  const unmappedCount = zones.length - mappedZones.length;
+  const maxActiveUsers = Math.max(0, ...mappedZones.map(zone => zone.active_users));
+  const here = position && isOnCampusMap(position.latitude, position.longitude)
+    ? projectToMap(position.latitude, position.longitude)
+    : null;
+
+  const handleMarkerKeyDown = (event: React.KeyboardEvent, zoneId: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelectZone(zoneId);
+    }
+  };
+
+  return (
+    <div className="rounded-xl overflow-hidden border border-princeton-orange/30 bg-[#161616]">
+      <svg
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className="w-full h-auto"
+        role="group"
+        aria-label="Campus map of hot zones"
+      >
+        <defs>
+          <radialGradient id="hot-zone-heat">
+            <stop offset="0%" stopColor="#F58025" stopOpacity="0.7" />
+            <stop offset="100%" stopColor="#F58025" stopOpacity="0" />
+          </radialGradient>
+        </defs>
+
+        {/* Base map */}
+        <polygon points={toSvgPoints(CAMPUS_LAKE)} fill="#1c2d3a" />
+        {CAMPUS_GREENS.map(green => (
+          <polygon key={green.name} points={toSvgPoints(green.points)} fill="#1b2a1b" />
+        ))}
+        {CAMPUS_STREETS.map(street => (
+          <polyline
+            key={street.name}
+            points={toSvgPoints(street.points)}
+            fill="none"
+            stroke="#2e2e2e"
+            strokeWidth={10}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        ))}
+
+        {/* Buildings */}
+        {buildings.filter(building => isOnCampusMap(building.latitude, building.longitude)).map(building => {
+          const { x, y } = projectToMap(building.latitude, building.longitude);
+          return (
+            <g key={building.id} aria-hidden="true">
+              <rect x={x - 7} y={y - 7} width={14} height={14} rx={3} fill="#4a4a4a" />
+              <text x={x} y={y + 24} textAnchor="middle" fontSize={16} fill="rgba(255,255,255,0.5)">
+                {building.name}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Occupancy heat, under the markers so it never blocks a tap */}
+        {mappedZones.map(zone => {
+          const { x, y } = projectToMap(zone.latitude!, zone.longitude!);
+          return (
+            <circle
+              key={`heat-${zone.id}`}
+              cx={x}
+              cy={y}
+              r={heatBubbleRadius(zone.active_users, maxActiveUsers)}
+              fill="url(#hot-zone-heat)"
+              opacity={zone.active_users > 0 ? 1 : 0.3}
+              pointerEvents="none"
+            />
+          );
+        })}
+
+        {/* Zone markers */}
+        {mappedZones.map(zone => {
+          const { x, y } = projectToMap(zone.latitude!, zone.longitude!);
+          return (
+            <g
+              key={zone.id}
+              role="button"
+              tabIndex={0}
+              aria-label={`${zone.name}, ${zone.active_users} checked in`}
+              onClick={() => onSelectZone(zone.id)}
+              onKeyDown={(event) => handleMarkerKeyDown(event, zone.id)}
+              className="cursor-pointer focus:outline-none [&:focus-visible>circle]:stroke-white"
+            >
+              <circle cx={x} cy={y} r={20} fill="#F58025" stroke="#000" strokeWidth={3} />
+              <text x={x} y={y + 6} textAnchor="middle" fontSize={18} fontWeight={700} fill="#000">
+                {zone.active_users}
+              </text>
+              <text x={x} y={y - 30} textAnchor="middle" fontSize={20} fontWeight={600} fill="#fff">
+                {zone.name}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* The user's own position */}
+        {here && (
+          <g aria-label="You are here" role="img">
+            <circle cx={here.x} cy={here.y} r={22} fill="#3b82f6" opacity={0.25} className="animate-pulse" />
+            <circle cx={here.x} cy={here.y} r={9} fill="#3b82f6" stroke="#fff" strokeWidth={3} />
+          </g>
+        )}
+      </svg>
+
+      {unmappedCount > 0 && (
+        <p className="px-4 py-2 text-xs text-princeton-white/60 bg-secondary">
+          {unmappedCount === 1 ? "1 zone isn't" : `${unmappedCount} zones aren't`} on the map yet. Switch to the list to see everything.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CampusMap;
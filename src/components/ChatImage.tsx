@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ImageOff } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { getMessageImageUrl } from '@/lib/api';
+
+interface ChatImageProps {
+  path: string;
+  thumbPath?: string | null;
+  alt: string;
+}
+
+// Signed URLs last an hour, so refresh them a little before that
+const SIGNED_URL_STALE_TIME = 50 * 60 * 1000;
+
+const useSignedUrl = (path?: string | null, enabled: boolean = true) =>
+  useQuery({
+    queryKey: ['message-image', path],
+    queryFn: () => getMessageImageUrl(path as string),
+    enabled: !!path && enabled,
+    staleTime: SIGNED_URL_STALE_TIME
+  });
+
+/**
+ * Photo inside a chat bubble. Shows the thumbnail and opens the full image in a viewer on tap.
+ */
+const ChatImage: React.FC<ChatImageProps> = ({ path, thumbPath, alt }) => {
+  const [open, setOpen] = useState(false);
+  const { data: thumbUrl, isLoading } = useSignedUrl(thumbPath || path);
+  const { data: fullUrl } = useSignedUrl(path, open);
+
+  if (isLoading) {
+    return <div className="w-48 h-48 rounded-xl bg-black/20 animate-pulse" />;
+  }
+
+  if (!thumbUrl) {
+    return (
+      <div className="w-48 h-32 rounded-xl bg-black/20 flex flex-col items-center justify-center text-xs opacity-70">
+        <ImageOff size={20} className="mb-1" />
+        Photo unavailable
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <button type="button" onClick={() => setOpen(true)} className="block">
+        <img
+          src={thumbUrl}
+          alt={alt}
+          className="max-w-full max-h-64 rounded-xl object-cover"
+        />
+      </button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-[95vw] max-h-[95vh] p-2 bg-black border-princeton-orange/20 flex items-center justify-center">
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <img
+            src={fullUrl || thumbUrl}
+            alt={alt}
+            className="max-w-full max-h-[90vh] object-contain"
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ChatImage;
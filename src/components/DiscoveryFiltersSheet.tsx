@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Sheet, SheetContent, SheetDescription, SheetFooter,
+  SheetHeader, SheetTitle
+} from '@/components/ui/sheet';
+import { updateUserSettings } from '@/lib/api';
+import { DiscoveryFilters, UserIntention, UserRole, UserVibe } from '@/types/database';
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'current_student', label: 'Current students' },
+  { value: 'recent_grad', label: 'Recent grads' },
+  { value: 'class_of_2025', label: 'Class of 2025' },
+  { value: 'alum', label: 'Alumni' },
+];
+
+const VIBE_OPTIONS: UserVibe[] = [
+  'Looking to Party',
+  'Looking to Catch Up',
+  'Down to Roam',
+  'Looking for a Hook-Up',
+  "🌙 Let's Just See Where the Night Takes Us",
+  '💑 Looking for Something Deeper',
+];
+
+const INTENTION_OPTIONS: { value: UserIntention; label: string }[] = [
+  { value: 'casual', label: 'Casual' },
+  { value: 'serious', label: 'Serious' },
+];
+
+const DEFAULT_MAX_DISTANCE_KM = 2;
+
+const toggle = <T,>(list: T[] | undefined, value: T): T[] =>
+  list?.includes(value) ? list.filter(item => item !== value) : [...(list || []), value];
+
+const parseYear = (value: string) => {
+  const year = parseInt(value, 10);
+  return Number.isNaN(year) ? null : year;
+};
+
+interface ChipProps {
+  selected: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const Chip: React.FC<ChipProps> = ({ selected, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={selected}
+    className={`px-3 py-1.5 rounded-full border text-sm transition-colors ${
+      selected
+        ? 'bg-princeton-orange border-princeton-orange text-black'
+        : 'bg-secondary border-princeton-orange/30 text-princeton-white hover:border-princeton-orange/60'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+interface DiscoveryFiltersSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  filters?: DiscoveryFilters;
+  onApplied?: () => void;
+}
+
+/**
+ * Edits the discovery filters. They're saved to settings and applied server-side,
+ * so the deck is refetched after saving.
+ */
+const DiscoveryFiltersSheet: React.FC<DiscoveryFiltersSheetProps> = ({ open, onOpenChange, filters, onApplied }) => {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<DiscoveryFilters>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved filters every time the sheet opens
+  useEffect(() => {
+    if (open) setDraft(filters || {});
+  }, [open, filters]);
+
+  const update = (changes: Partial<DiscoveryFilters>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSave = async (next: DiscoveryFilters) => {
+    setIsSaving(true);
+
+    try {
+      await updateUserSettings({ discoveryFilters: next });
+
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['currentUser'] }),
+        queryClient.invalidateQueries({ queryKey: ['potential-matches'] })
+      ]);
+
+      onOpenChange(false);
+      onApplied?.();
+    } catch (error) {
+      toast.error('Failed to save filters');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="bottom" className="bg-black border-princeton-orange/30 max-h-[85vh] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-princeton-white">Filters</SheetTitle>
+          <SheetDescription>Only show people who match all of these.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          <div className="space-y-2">
+            <Label className="text-princeton-white">Class year</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                inputMode="numeric"
+                placeholder="From"
+                value={draft.classYearMin ?? ''}
+                onChange={(e) => update({ classYearMin: parseYear(e.target.value) })}
+                className="bg-secondary border-princeton-orange/30 text-princeton-white"
+                aria-label="Earliest class year"
+              />
+              <span className="text-princeton-white/60">to</span>
+              <Input
+                type="number"
+                inputMode="numeric"
+                placeholder="To"
+                value={draft.classYearMax ?? ''}
+                onChange={(e) => update({ classYearMax: parseYear(e.target.value) })}
+                className="bg-secondary border-princeton-orange/30 text-princeton-white"
+                aria-label="Latest class year"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2 pt-1">
+              {ROLE_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  selected={!!draft.roles?.includes(option.value)}
+                  onClick={() => update({ roles: toggle(draft.roles, option.value) })}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="limit-distance" className="text-princeton-white">
+                Within {draft.maxDistanceKm ?? DEFAULT_MAX_DISTANCE_KM} km of my building
+              </Label>
+              <Switch
+                id="limit-distance"
+                checked={draft.maxDistanceKm != null}
+                onCheckedChange={(checked) => update({ maxDistanceKm: checked ? DEFAULT_MAX_DISTANCE_KM : null })}
+              />
+            </div>
+            {draft.maxDistanceKm != null && (
+              <Slider
+                min={0.5}
+                max={10}
+                step={0.5}
+                value={[draft.maxDistanceKm]}
+                onValueChange={([value]) => update({ maxDistanceKm: value })}
+                aria-label="Maximum distance in kilometres"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-princeton-white">Vibe</Label>
+            <div className="flex flex-wrap gap-2">
+              {VIBE_OPTIONS.map(vibe => (
+                <Chip
+                  key={vibe}
+                  selected={!!draft.vibes?.includes(vibe)}
+                  onClick={() => update({ vibes: toggle(draft.vibes, vibe) })}
+                >
+                  {vibe}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-princeton-white">Looking for</Label>
+            <div className="flex flex-wrap gap-2">
+              {INTENTION_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  selected={!!draft.intentions?.includes(option.value)}
+                  onClick={() => update({ intentions: toggle(draft.intentions, option.value) })}
+                >
+                  {option.label}
+                </Chip>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleSave({})}
+            disabled={isSaving}
+          >
+            Clear all
+          </Button>
+          <Button
+            className="bg-princeton-orange hover:bg-princeton-orange/90 text-black"
+            onClick={() => handleSave(draft)}
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Show results'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DiscoveryFiltersSheet;
@@ -0,0 +1,119 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, Clock, MapPin, Users } from 'lucide-react';
+import { EventRsvpMatch, HotZoneEvent } from '@/types/database';
+import { EVENT_CATEGORY_LABELS, formatEventTime, hasEnded, isHappeningNow } from '@/lib/hot-zone-events';
+
+interface HotZoneEventItemProps {
+  event: HotZoneEvent;
+  // Shown on the cross-zone timeline, where the zone isn't otherwise obvious
+  zone?: { id: string; name: string };
+  isGoing: boolean;
+  isPending: boolean;
+  matchesGoing: EventRsvpMatch[];
+  onToggleRsvp: (eventId: string) => void;
+}
+
+// How many match avatars to show before summarising the rest
+const MAX_MATCH_AVATARS = 3;
+
+/**
+ * One event on a hot zone schedule, with its "I'm going" RSVP and the matches who are going
+ */
+const HotZoneEventItem: React.FC<HotZoneEventItemProps> = ({
+  event, zone, isGoing, isPending, matchesGoing, onToggleRsvp
+}) => {
+  const navigate = useNavigate();
+  const ended = hasEnded(event);
+
+  return (
+    <li className={`p-3 rounded-lg bg-black/30 ${ended ? 'opacity-50' : ''}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-princeton-white font-medium">{event.name}</div>
+          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs">
+            <span className="px-2 py-0.5 rounded-full bg-princeton-orange/20 text-princeton-orange">
+              {EVENT_CATEGORY_LABELS[event.category || 'other']}
+            </span>
+            {event.host_class_year && (
+              <span className="text-princeton-white/60">Hosted by the Class of {event.host_class_year}</span>
+            )}
+          </div>
+        </div>
+        {isHappeningNow(event) && (
+          <span className="shrink-0 px-2 py-0.5 rounded-full bg-princeton-orange text-princeton-black text-xs font-medium">
+            Now
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center text-princeton-white/70 text-sm mt-2">
+        <Clock size={14} className="mr-1" />
+        <span>{formatEventTime(event)}</span>
+      </div>
+      {zone && (
+        <button
+          onClick={() => navigate(`/hot-zone/${zone.id}`)}
+          className="flex items-center text-princeton-white/70 hover:text-princeton-orange text-sm mt-1 transition-colors"
+        >
+          <MapPin size={14} className="mr-1" />
+          <span>{zone.name}</span>
+        </button>
+      )}
+      {event.description && (
+        <p className="text-princeton-white/70 text-sm mt-2">{event.description}</p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 mt-3">
+        {matchesGoing.length > 0 ? (
+          <div className="flex items-center gap-2 min-w-0">
+            <div className="flex -space-x-2">
+              {matchesGoing.slice(0, MAX_MATCH_AVATARS).map(match => (
+                <button
+                  key={match.matchId}
+                  onClick={() => navigate(`/chat/${match.matchId}`)}
+                  aria-label={`Message ${match.name}`}
+                  className="rounded-full ring-2 ring-secondary"
+                >
+                  <img
+                    src={match.photoUrl || '/placeholder.svg'}
+                    alt=""
+                    className="w-7 h-7 rounded-full object-cover"
+                  />
+                </button>
+              ))}
+            </div>
+            <span className="text-princeton-white/70 text-xs truncate">
+              {matchesGoing.length === 1
+                ? `${matchesGoing[0].name} is going`
+                : `${matchesGoing[0].name} and ${matchesGoing.length - 1} more ${matchesGoing.length === 2 ? 'match is' : 'matches are'} going`}
+            </span>
+          </div>
+        ) : (
+          <span className="flex items-center text-princeton-white/50 text-xs">
+            <Users size={12} className="mr-1" />
+            No matches going yet
+          </span>
+        )}
+
+        {!ended && (
+          <button
+            onClick={() => onToggleRsvp(event.id)}
+            disabled={isPending}
+            aria-pressed={isGoing}
+            className={`shrink-0 inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+              isGoing
+                ? 'bg-black/30 text-princeton-orange border border-princeton-orange/50 hover:bg-black/50'
+                : 'bg-princeton-orange text-princeton-black hover:bg-princeton-orange/90'
+            }`}
+          >
+            {isGoing && <Check size={14} className="mr-1" />}
+            {isGoing ? 'Going' : "I'm going"}
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+export default HotZoneEventItem;
@@ -0,0 +1,56 @@
+import React, { useMemo } from 'react';
+import { CalendarClock } from 'lucide-react';
+import HotZoneEventItem from '@/components/HotZoneEventItem';
+import { buildEventTimeline, TimelineEvent } from '@/lib/hot-zone-events';
+import { useEventRsvps } from '@/hooks/use-event-rsvps';
+import { HotZone } from '@/types/database';
+
+interface HotZoneTimelineProps {
+  zones: HotZone[];
+}
+
+/**
+ * "Happening now" and "Up next" across every hot zone's schedule
+ */
+const HotZoneTimeline: React.FC<HotZoneTimelineProps> = ({ zones }) => {
+  // Recomputed on every render; the page re-renders each minute to keep times fresh
+  const { happeningNow, upNext } = buildEventTimeline(zones);
+  const shownEvents = [...happeningNow, ...upNext];
+  const eventIdsKey = shownEvents.map(event => event.id).join(',');
+  const eventIds = useMemo(() => (eventIdsKey ? eventIdsKey.split(',') : []), [eventIdsKey]);
+  const rsvps = useEventRsvps(eventIds);
+
+  if (shownEvents.length === 0) return null;
+
+  const renderEvents = (title: string, events: TimelineEvent[]) => events.length > 0 && (
+    <div>
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-princeton-white/60 mb-2">{title}</h3>
+      <ul className="space-y-2">
+        {events.map(event => (
+          <HotZoneEventItem
+            key={event.id}
+            event={event}
+            zone={event.zone}
+            isGoing={rsvps.isGoing(event.id)}
+            isPending={rsvps.isPending(event.id)}
+            matchesGoing={rsvps.matchesGoingTo(event.id)}
+            onToggleRsvp={rsvps.toggleRsvp}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+
+  return (
+    <section className="rounded-xl bg-secondary p-4 mb-6 space-y-4">
+      <h2 className="text-lg font-semibold text-princeton-white flex items-center">
+        <CalendarClock size={18} className="text-princeton-orange mr-2" />
+        Schedule
+      </h2>
+      {renderEvents('Happening now', happeningNow)}
+      {renderEvents('Up next', upNext)}
+    </section>
+  );
+};
+
+export default HotZoneTimeline;
@@ -46,7 +46,7 @@ const ProfileCompletionNotification: React.FC<ProfileCompletionNotificationProps
     if (currentUser.bio) completedFields++;
     if (currentUser.major) completedFields++;
     if (currentUser.gender) completedFields++;
-    if (currentUser.gender_preference) completedFields++;
+    if (currentUser.gender_preference?.length) completedFields++;
     if (currentUser.interests && currentUser.interests.length > 0) completedFields++;
     
     return Math.round((completedFields / totalFields) * 100);
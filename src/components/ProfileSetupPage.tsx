@@ -6,7 +6,9 @@ import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { uploadToCloudinary } from '@/lib/cloudinary';
+import { saveMyLocation } from '@/lib/api';
 import { UserGender, GenderPreference, UserVibe, CampusBuilding } from '@/types/database';
+import { GENDER_PREFERENCE_OPTIONS, toggleGenderPreference } from '@/lib/gender-preference';
 
 type Step = 'basics' | 'photos' | 'gender' | 'interests' | 'location' | 'review';
 
@@ -32,12 +34,6 @@ const genderOptions: { value: UserGender; label: string }[] = [
   { value: 'other', label: 'Other' },
 ];
 
-const preferenceOptions: { value: GenderPreference; label: string }[] = [
-  { value: 'male', label: 'Men' },
-  { value: 'female', label: 'Women' },
-  { value: 'everyone', label: 'Everyone' },
-];
-
 const contactOptions = [
   { value: 'email', label: 'Email' },
   { value: 'phone', label: 'Phone' },
@@ -70,7 +66,7 @@ const ProfileSetupPage: React.FC = () => {
 
   // GENDER & VIBE
   const [gender, setGender] = useState<UserGender | ''>('');
-  const [genderPreference, setGenderPreference] = useState<GenderPreference>('everyone');
+  const [genderPreference, setGenderPreference] = useState<GenderPreference[]>(['everyone']);
   const [selectedVibe, setSelectedVibe] = useState<string | null>(null);
 
   // INTERESTS & CLUBS
@@ -258,10 +254,6 @@ const ProfileSetupPage: React.FC = () => {
         gender,
         gender_preference: genderPreference,
         contact_preference: contactPreference,
-        building: selectedBuilding?.name,
-        location: selectedBuilding?.name,
-        latitude: selectedBuilding?.latitude,
-        longitude: selectedBuilding?.longitude,
         photo_urls: uploaded.length ? uploaded : null,
         profile_complete: true,
       };
@@ -279,6 +271,15 @@ const ProfileSetupPage: React.FC = () => {
         if (error) throw error;
         userRow = data;
       }
+      // building stays private; the server copies its coordinates.
+      // the rest of the profile still saves if the building can't change yet
+      if (selectedBuilding) {
+        await saveMyLocation(selectedBuilding.id).catch((locError: { message?: string }) => {
+          toast.error(locError?.message?.includes('once an hour')
+            ? 'You can only change your building once an hour'
+            : "Couldn't save your building");
+        });
+      }
       // clear & link interests/clubs
       await supabase.from('user_interests').delete().eq('user_id', userRow.id);
       await supabase.from('user_clubs').delete().eq('user_id', userRow.id);
@@ -469,14 +470,15 @@ const ProfileSetupPage: React.FC = () => {
                 </div>
                 {/* Preference */}
                 <div>
-                  <label className="block text-sm text-princeton-white/80 mb-2">Show Me</label>
+                  <label className="block text-sm text-princeton-white/80 mb-2">Show Me <span className="text-princeton-white/50">(pick any)</span></label>
                   <div className="grid grid-cols-3 gap-2">
-                    {preferenceOptions.map(o=>(
+                    {GENDER_PREFERENCE_OPTIONS.map(o=>(
                       <button
                         key={o.value}
-                        onClick={()=>setGenderPreference(o.value)}
+                        onClick={()=>setGenderPreference(prev=>toggleGenderPreference(prev, o.value))}
+                        aria-pressed={genderPreference.includes(o.value)}
                         className={`p-3 rounded-lg border text-center ${
-                          genderPreference===o.value
+                          genderPreference.includes(o.value)
                             ? 'bg-princeton-orange text-black'
                             : 'bg-secondary text-white hover:border-princeton-orange/60'
                         }`}
@@ -662,7 +664,7 @@ const ProfileSetupPage: React.FC = () => {
                       <div className="flex justify-between">
                         <span className="text-princeton-white/60">Show Me:</span>
                         <span className="text-princeton-white">
-                          {preferenceOptions.find(o=>o.value===genderPreference)?.label}
+                          {GENDER_PREFERENCE_OPTIONS.filter(o=>genderPreference.includes(o.value)).map(o=>o.label).join(', ')}
                         </span>
                       </div>
                       <div className="flex justify-between">
@@ -1,13 +1,18 @@
 
-import React, { useState, useEffect } from 'react';
-import { motion, useMotionValue, useTransform } from 'framer-motion';
+import React, { useState, useEffect, useRef } from 'react';
+import { motion, useMotionValue, useReducedMotion, useTransform } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Heart, X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Heart, X, ChevronLeft, ChevronRight, Sparkles, SlidersHorizontal, RotateCcw, Star, MapPin } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { getPotentialMatches, recordSwipe } from '@/lib/api';
-import { UserWithRelations } from '@/types/database';
+import { getCurrentUser, getSuperLikesRemaining, recordSwipe, rewindSwipe, SWIPE_REWIND_WINDOW_MS } from '@/lib/api';
+import { useSwipeDeck } from '@/hooks/use-swipe-deck';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { countActiveFilters } from '@/lib/discovery';
+import { DISTANCE_BUCKET_LABELS } from '@/lib/distance-buckets';
+import { DistanceBucket, SwipeDirection } from '@/types/database';
 import ProfileCompletionNotification from './ProfileCompletionNotification';
+import DiscoveryFiltersSheet from './DiscoveryFiltersSheet';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
@@ -22,7 +27,7 @@ interface PotentialMatch {
   major?: string;
   photo_urls?: string[];
   gender?: string;
-  gender_preference?: string;
+  gender_preference?: string[];
   profile_complete?: boolean; // Make profile_complete optional to match UserWithRelations
   intention?: 'casual' | 'serious';
   interests: { name: { name: string } }[];
@@ -31,42 +36,78 @@ interface PotentialMatch {
   role?: string;
   created_at?: string;
   updated_at?: string;
+  // Why the ranking put this profile here, strongest first
+  reasons?: string[];
+  superLikedMe?: boolean;
+  distanceBucket?: DistanceBucket | null;
 }
 
 interface SwipeCardProps {
   user: PotentialMatch;
-  onSwipe: (direction: 'left' | 'right') => void;
+  onSwipe: (direction: SwipeDirection) => void;
+  // Swiping up only counts while the user has super likes left
+  canSuperLike: boolean;
+  // Slide back in from where it was swiped, for a card restored by rewind
+  enterFrom?: SwipeDirection;
 }
 
-const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
+// What screen readers hear for a card
+const describeCard = (user: PotentialMatch) => {
+  const interests = (user.interests || []).map(interest => interest?.name?.name).filter(Boolean);
+  return [
+    user.class_year ? `${user.name}, class of ${user.class_year}.` : `${user.name}.`,
+    user.superLikedMe ? 'Super liked you.' : '',
+    interests.length > 0 ? `Interests: ${interests.join(', ')}.` : ''
+  ].filter(Boolean).join(' ');
+};
+
+const ENTER_OFFSETS: Record<SwipeDirection, { x?: number; y?: number }> = {
+  left: { x: -200 },
+  right: { x: 200 },
+  super: { y: -200 }
+};
+
+const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe, canSuperLike, enterFrom }) => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [exitX, setExitX] = useState<number | null>(null);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  // With reduced motion the card fades instead of tilting and shrinking
+  const prefersReducedMotion = useReducedMotion();
   
   // Card dragging functionality
   const x = useMotionValue(0);
+  const y = useMotionValue(0);
   const rotate = useTransform(x, [-200, 0, 200], [-20, 0, 20]);
   const opacity = useTransform(x, [-200, -100, 0, 100, 200], [0, 1, 1, 1, 0]);
   const scale = useTransform(x, [-200, -150, 0, 150, 200], [0.8, 0.9, 1, 0.9, 0.8]);
   const rightIndicatorOpacity = useTransform(x, [0, 50, 100], [0, 0.5, 1]);
   const leftIndicatorOpacity = useTransform(x, [-100, -50, 0], [1, 0.5, 0]);
+  const superIndicatorOpacity = useTransform(y, [-100, -50, 0], [1, 0.5, 0]);
   
   // Record the swipe in the database and check if it's a match
   const swipeMutation = useMutation({
-    mutationFn: ({ userId, direction }: { userId: string, direction: 'left' | 'right' }) => 
+    mutationFn: ({ userId, direction }: { userId: string, direction: SwipeDirection }) => 
       recordSwipe(userId, direction),
-    onSuccess: (data) => {
-      if (data === true) {
+    onSuccess: (result, variables) => {
+      if (result.matched) {
+        queryClient.invalidateQueries({ queryKey: ['matches'] });
         toast.success("It's a match! 🎉", {
           action: {
-            label: "View Matches",
-            onClick: () => navigate('/matches')
+            label: "Say hi",
+            onClick: () => navigate(result.matchId ? `/chat/${result.matchId}` : '/matches')
           }
         });
+      } else if (variables.direction === 'super') {
+        toast.success(`Super like sent to ${user.name} ⭐`);
+      }
+      
+      if (variables.direction === 'super') {
+        queryClient.invalidateQueries({ queryKey: ['super-likes-remaining'] });
       }
     },
-    onError: () => {
-      toast.error("Error recording swipe");
+    onError: (error: { message?: string }) => {
+      toast.error(error?.message?.includes('super likes') ? 'No super likes left today' : "Error recording swipe");
     }
   });
 
@@ -79,6 +120,14 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
       setExitX(-200);
       onSwipe('left');
       swipeMutation.mutate({ userId: user.auth_id, direction: 'left' });
+    } else if (info.offset.y < -120) {
+      // Swipe up to super like
+      if (!canSuperLike) {
+        toast.error('No super likes left today');
+        return;
+      }
+      onSwipe('super');
+      swipeMutation.mutate({ userId: user.auth_id, direction: 'super' });
     }
   };
   
@@ -90,6 +139,15 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
   // Calculate the total number of images
   const totalImages = user.photo_urls?.length || 0;
 
+  // Space flips through photos (Shift+Space goes back), Enter opens the profile
+  useKeyboardShortcuts({
+    ' ': (event) => {
+      if (totalImages < 2) return;
+      setCurrentImageIndex(prev => (prev + (event.shiftKey ? totalImages - 1 : 1)) % totalImages);
+    },
+    Enter: viewProfile
+  });
+
   // Render interests properly
   const renderInterests = () => {
     if (!user.interests || user.interests.length === 0) return null;
@@ -121,6 +179,18 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
     );
   };
 
+  // Render the "why you're seeing this" line from the discovery ranking
+  const renderReasons = () => {
+    if (!user.reasons || user.reasons.length === 0) return null;
+    
+    return (
+      <div className="flex items-center gap-1 text-xs text-white/90 mb-2">
+        <Sparkles size={12} className="text-princeton-orange shrink-0" />
+        <span className="truncate">{user.reasons.join(' · ')}</span>
+      </div>
+    );
+  };
+
   // Render relationship intention (removed the emojis and specific text)
   const renderIntention = () => {
     const intention = user.intention;
@@ -135,13 +205,20 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
 
   return (
     <motion.div
-      drag="x"
-      dragConstraints={{ left: 0, right: 0 }}
+      drag
+      dragDirectionLock
+      dragConstraints={{ left: 0, right: 0, top: 0, bottom: 0 }}
       onDragEnd={handleDrag}
-      style={{ x, rotate, opacity, scale }}
-      exit={{ x: exitX || 0 }}
+      style={prefersReducedMotion ? { x, y } : { x, y, rotate, opacity, scale }}
+      initial={prefersReducedMotion ? { opacity: 0 } : enterFrom ? ENTER_OFFSETS[enterFrom] : false}
+      animate={prefersReducedMotion ? { opacity: 1, x: 0, y: 0 } : { x: 0, y: 0 }}
+      exit={prefersReducedMotion ? { opacity: 0 } : { x: exitX || 0 }}
       transition={{ duration: 0.2 }}
-      className="absolute w-full h-full bg-secondary rounded-xl overflow-hidden"
+      tabIndex={0}
+      role="group"
+      aria-roledescription="profile card"
+      aria-label={describeCard(user)}
+      className="absolute w-full h-full bg-secondary rounded-xl overflow-hidden focus:outline-none focus-visible:ring-4 focus-visible:ring-princeton-orange"
     >
       <div className="relative h-full">
         {/* Profile Image Carousel */}
@@ -150,7 +227,7 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
             <>
               <img
                 src={user.photo_urls[currentImageIndex]}
-                alt={`${user.name}'s photo`}
+                alt={`${user.name}'s photo ${currentImageIndex + 1} of ${totalImages}`}
                 className="w-full h-full object-cover"
                 loading="lazy" // Add lazy loading for better performance
               />
@@ -159,7 +236,7 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
               {totalImages > 1 && (
                 <>
                   {/* Image Indicators */}
-                  <div className="absolute top-2 left-0 right-0 flex justify-center gap-1">
+                  <div className="absolute top-2 left-0 right-0 flex justify-center gap-1" aria-hidden="true">
                     {user.photo_urls.map((_, index) => (
                       <div 
                         key={index} 
@@ -175,11 +252,12 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
                   {/* Previous Image Button */}
                   {currentImageIndex > 0 && (
                     <button 
-                      className="absolute top-1/2 left-2 -translate-y-1/2 bg-black/30 p-1 rounded-full"
+                      className="absolute top-1/2 left-2 -translate-y-1/2 bg-black/30 p-1 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-princeton-orange"
                       onClick={(e) => {
                         e.stopPropagation();
                         setCurrentImageIndex(prev => prev - 1);
                       }}
+                      aria-label="Previous photo"
                     >
                       <ChevronLeft className="text-white" size={20} />
                     </button>
@@ -188,11 +266,12 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
                   {/* Next Image Button */}
                   {currentImageIndex < totalImages - 1 && (
                     <button 
-                      className="absolute top-1/2 right-2 -translate-y-1/2 bg-black/30 p-1 rounded-full"
+                      className="absolute top-1/2 right-2 -translate-y-1/2 bg-black/30 p-1 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-princeton-orange"
                       onClick={(e) => {
                         e.stopPropagation();
                         setCurrentImageIndex(prev => prev + 1);
                       }}
+                      aria-label="Next photo"
                     >
                       <ChevronRight className="text-white" size={20} />
                     </button>
@@ -210,6 +289,7 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
         {/* Swipe Indicators */}
         <motion.div 
           className="absolute top-4 right-4 bg-green-500 p-2 rounded-full"
+          aria-hidden="true"
           style={{ opacity: rightIndicatorOpacity }}
         >
           <Heart size={32} className="text-white" />
@@ -217,22 +297,45 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
       
         <motion.div 
           className="absolute top-4 left-4 bg-red-500 p-2 rounded-full"
+          aria-hidden="true"
           style={{ opacity: leftIndicatorOpacity }}
         >
           <X size={32} className="text-white" />
         </motion.div>
         
+        <motion.div 
+          className="absolute top-4 left-1/2 -translate-x-1/2 bg-sky-500 p-2 rounded-full"
+          aria-hidden="true"
+          style={{ opacity: superIndicatorOpacity }}
+        >
+          <Star size={32} className="text-white fill-white" />
+        </motion.div>
+        
         {/* Profile Info */}
         <div 
           className="absolute bottom-0 w-full p-4"
           style={{ background: "linear-gradient(to top, rgba(0,0,0,0.9), rgba(0,0,0,0))" }}
           onClick={viewProfile}
         >
+          {user.superLikedMe && (
+            <Badge className="mb-2 bg-sky-500 text-white hover:bg-sky-500">
+              <Star size={12} className="mr-1 fill-white" />
+              Super liked you
+            </Badge>
+          )}
           <h2 className="text-2xl font-bold text-white mb-0">{user.name}, {user.class_year}</h2>
           {user.major && <p className="text-princeton-orange mb-1">{user.major}</p>}
+          {user.distanceBucket && (
+            <p className="flex items-center text-white/70 text-sm mb-1">
+              <MapPin size={14} className="mr-1" />
+              {DISTANCE_BUCKET_LABELS[user.distanceBucket]}
+            </p>
+          )}
           
           {renderIntention()}
           
+          {renderReasons()}
+          
           {user.bio && <p className="text-white/80 line-clamp-3 mb-2">{user.bio}</p>}
           
           {renderInterests()}
@@ -250,15 +353,31 @@ const SwipeCard: React.FC<SwipeCardProps> = ({ user, onSwipe }) => {
   );
 };
 
-const NoMoreUsers = () => (
+interface NoMoreUsersProps {
+  onRefresh: () => void;
+  // Set when saved filters could be hiding people
+  onEditFilters?: () => void;
+}
+
+const NoMoreUsers: React.FC<NoMoreUsersProps> = ({ onRefresh, onEditFilters }) => (
   <div className="h-full w-full flex flex-col items-center justify-center p-8 bg-secondary rounded-xl text-center">
     <div className="mb-4 text-6xl">👀</div>
     <h2 className="text-2xl font-bold text-princeton-white mb-2">No more Tigers nearby</h2>
-    <p className="text-princeton-white/70 mb-6">Check back later for new matches</p>
+    <p className="text-princeton-white/70 mb-6">
+      {onEditFilters ? 'Try loosening your filters to see more people' : 'Check back later for new matches'}
+    </p>
+    {onEditFilters && (
+      <Button
+        className="mb-3 bg-princeton-orange hover:bg-princeton-orange/90 text-black"
+        onClick={onEditFilters}
+      >
+        Edit Filters
+      </Button>
+    )}
     <Button 
       variant="outline"
       className="border-princeton-orange text-princeton-orange hover:bg-princeton-orange/10"
-      onClick={() => window.location.reload()}
+      onClick={onRefresh}
     >
       Refresh
     </Button>
@@ -281,48 +400,132 @@ const LoadingMatchesCard = () => (
   </div>
 );
 
+const SWIPE_ACTION_LABELS: Record<SwipeDirection, string> = {
+  left: 'Passed on',
+  right: 'Liked',
+  super: 'Super liked'
+};
+
+// The most recent swipe, kept so it can be undone
+interface LastSwipe {
+  user: PotentialMatch;
+  direction: SwipeDirection;
+  swipedAt: number;
+}
+
 const SwipePage: React.FC = () => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [lastSwipe, setLastSwipe] = useState<LastSwipe | null>(null);
+  // A card brought back by rewind, shown on top of the deck until it's swiped again
+  const [rewoundCard, setRewoundCard] = useState<LastSwipe | null>(null);
+  const [isRewinding, setIsRewinding] = useState(false);
+  // Read out by screen readers after each swipe, followed by the next card
+  const [lastAction, setLastAction] = useState('');
   const navigate = useNavigate();
   const queryClient = useQueryClient();
 
-  // Fetch potential matches with a staleTime to avoid refetching too often
-  const { data: potentialMatches, isLoading, isError } = useQuery({
-    queryKey: ['potential-matches'],
-    queryFn: getPotentialMatches,
-    staleTime: 30000, // Data will be fresh for 30 seconds
-    meta: {
-      onError: (error: Error) => {
-        console.error("Error fetching potential matches:", error);
-        toast.error("Failed to load matches");
-      }
-    }
+  // Saved discovery filters live in the user's settings
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: getCurrentUser
+  });
+  const discoveryFilters = currentUser?.settings?.discoveryFilters;
+  const activeFilterCount = countActiveFilters(discoveryFilters);
+
+  // Daily super like allowance, counted server-side
+  const { data: superLikesRemaining = 0 } = useQuery({
+    queryKey: ['super-likes-remaining'],
+    queryFn: getSuperLikesRemaining
   });
 
-  const handleSwipe = () => {
-    setCurrentIndex(prevIndex => prevIndex + 1);
+  // The deck refills itself as it runs low and remembers where we were
+  const deck = useSwipeDeck();
+  const { isLoading, isError } = deck;
+
+  const currentCard = rewoundCard?.user ?? deck.remaining[0];
+
+  // Rewind is only offered while the database would still allow it
+  useEffect(() => {
+    if (!lastSwipe) return;
+    
+    const timeout = setTimeout(
+      () => setLastSwipe(null),
+      lastSwipe.swipedAt + SWIPE_REWIND_WINDOW_MS - Date.now()
+    );
+    return () => clearTimeout(timeout);
+  }, [lastSwipe]);
+
+  const handleSwipe = (direction: SwipeDirection) => {
+    if (!currentCard) return;
+    
+    setLastSwipe({ user: currentCard, direction, swipedAt: Date.now() });
+    setRewoundCard(null);
+    deck.markSwiped(currentCard.id);
+    setLastAction(`${SWIPE_ACTION_LABELS[direction]} ${currentCard.name}.`);
+  };
+
+  // Undo the last swipe and put the card back
+  const handleRewind = async () => {
+    if (!lastSwipe || isRewinding) return;
+    
+    setIsRewinding(true);
+    
+    try {
+      await rewindSwipe(lastSwipe.user.id);
+      
+      setRewoundCard(lastSwipe);
+      setLastSwipe(null);
+      deck.unmarkSwiped(lastSwipe.user.id);
+      // A rewound super like stays spent, so the allowance doesn't change
+      setLastAction(`Brought back ${lastSwipe.user.name}.`);
+    } catch (error) {
+      const message = (error as { message?: string })?.message;
+      if (message?.includes('match')) {
+        // The swipe turned into a match, which only unmatching can undo
+        setLastSwipe(null);
+        queryClient.invalidateQueries({ queryKey: ['matches'] });
+        toast.info(`You've already matched with ${lastSwipe.user.name}`);
+      } else {
+        toast.error("Couldn't undo that swipe");
+      }
+    } finally {
+      setIsRewinding(false);
+    }
   };
 
+  // Held key repeats and fast presses would otherwise record several swipes and skip cards
+  const swipeInFlight = useRef(false);
+
   // Handle button swipe
-  const handleButtonSwipe = async (direction: 'left' | 'right') => {
-    if (!potentialMatches || currentIndex >= potentialMatches.length) return;
+  const handleButtonSwipe = async (direction: SwipeDirection) => {
+    if (!currentCard || swipeInFlight.current) return;
     
-    const user = potentialMatches[currentIndex];
+    const user = currentCard;
+    swipeInFlight.current = true;
     
     try {
-      const isMatch = await recordSwipe(user.auth_id, direction);
-      if (isMatch) {
+      const result = await recordSwipe(user.auth_id, direction);
+      if (result.matched) {
+        queryClient.invalidateQueries({ queryKey: ['matches'] });
         toast.success("It's a match! 🎉", {
           action: {
-            label: "View Matches",
-            onClick: () => navigate('/matches')
+            label: "Say hi",
+            onClick: () => navigate(result.matchId ? `/chat/${result.matchId}` : '/matches')
           }
         });
+      } else if (direction === 'super') {
+        toast.success(`Super like sent to ${user.name} ⭐`);
       }
-      setCurrentIndex(prevIndex => prevIndex + 1);
+      
+      if (direction === 'super') {
+        queryClient.invalidateQueries({ queryKey: ['super-likes-remaining'] });
+      }
+      handleSwipe(direction);
     } catch (error) {
       console.error("Error recording swipe:", error);
       toast.error("Error recording swipe");
+    } finally {
+      swipeInFlight.current = false;
     }
   };
 
@@ -331,6 +534,16 @@ const SwipePage: React.FC = () => {
     navigate('/likers');
   };
 
+  // Arrow keys swipe, U undoes
+  useKeyboardShortcuts({
+    ArrowLeft: () => handleButtonSwipe('left'),
+    ArrowRight: () => handleButtonSwipe('right'),
+    ArrowUp: () => {
+      if (superLikesRemaining > 0) handleButtonSwipe('super');
+    },
+    u: () => handleRewind()
+  }, !isLoading && !isError);
+
   // Show empty state for loading
   if (isLoading) {
     return (
@@ -380,7 +593,7 @@ const SwipePage: React.FC = () => {
     );
   }
 
-  const noMoreUsers = !potentialMatches || potentialMatches.length === 0 || currentIndex >= potentialMatches.length;
+  const noMoreUsers = !currentCard;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-black to-[#121212] p-4 flex flex-col">
@@ -389,8 +602,19 @@ const SwipePage: React.FC = () => {
           <ProfileCompletionNotification />
         </div>
         
-        {/* Admirers Button */}
-        <div className="flex justify-end mb-4">
+        {/* Filters and Admirers Buttons */}
+        <div className="flex justify-between mb-4">
+          <Button 
+            variant="outline" 
+            className="border-princeton-orange text-princeton-orange hover:bg-princeton-orange/10"
+            onClick={() => setFiltersOpen(true)}
+          >
+            <SlidersHorizontal size={16} className="mr-2" />
+            Filters
+            {activeFilterCount > 0 && (
+              <Badge className="ml-2 bg-princeton-orange text-black hover:bg-princeton-orange">{activeFilterCount}</Badge>
+            )}
+          </Button>
           <Button 
             variant="outline" 
             className="border-princeton-orange text-princeton-orange hover:bg-princeton-orange/10"
@@ -400,14 +624,27 @@ const SwipePage: React.FC = () => {
           </Button>
         </div>
         
+        {/* Announces swipes and the next card to screen readers */}
+        <div aria-live="polite" className="sr-only">
+          {lastAction} {currentCard ? describeCard(currentCard) : 'No more profiles right now.'}
+        </div>
+        
         <div className="flex-1 relative">
           {!noMoreUsers ? (
             <SwipeCard
-              user={potentialMatches[currentIndex]}
+              key={currentCard.id}
+              user={currentCard}
               onSwipe={handleSwipe}
+              canSuperLike={superLikesRemaining > 0}
+              enterFrom={rewoundCard?.direction}
             />
+          ) : deck.isFetchingMore ? (
+            <LoadingMatchesCard />
           ) : (
-            <NoMoreUsers />
+            <NoMoreUsers
+              onRefresh={() => deck.refetch()}
+              onEditFilters={activeFilterCount > 0 ? () => setFiltersOpen(true) : undefined}
+            />
           )}
         </div>
         
@@ -419,21 +656,63 @@ const SwipePage: React.FC = () => {
             className="w-16 h-16 rounded-full border-2 border-red-500 text-red-500 hover:bg-red-500 hover:text-white transition-colors"
             onClick={() => handleButtonSwipe('left')}
             disabled={noMoreUsers}
+            aria-label="Pass"
+            aria-keyshortcuts="ArrowLeft"
           >
             <X size={32} />
           </Button>
           
+          <Button
+            variant="outline"
+            size="icon"
+            className="w-12 h-12 self-center rounded-full border-2 border-yellow-400 text-yellow-400 hover:bg-yellow-400 hover:text-black transition-colors"
+            onClick={handleRewind}
+            disabled={!lastSwipe || isRewinding}
+            aria-label="Undo last swipe"
+            aria-keyshortcuts="U"
+          >
+            <RotateCcw size={22} />
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="icon"
+            className="relative w-12 h-12 self-center rounded-full border-2 border-sky-400 text-sky-400 hover:bg-sky-400 hover:text-white transition-colors"
+            onClick={() => handleButtonSwipe('super')}
+            disabled={noMoreUsers || superLikesRemaining === 0}
+            aria-label={`Super like (${superLikesRemaining} left today)`}
+            aria-keyshortcuts="ArrowUp"
+          >
+            <Star size={22} />
+            <span aria-hidden="true" className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-sky-400 text-black text-[10px] font-bold flex items-center justify-center">
+              {superLikesRemaining}
+            </span>
+          </Button>
+          
           <Button
             variant="outline"
             size="icon"
             className="w-16 h-16 rounded-full border-2 border-green-500 text-green-500 hover:bg-green-500 hover:text-white transition-colors"
             onClick={() => handleButtonSwipe('right')}
             disabled={noMoreUsers}
+            aria-label="Like"
+            aria-keyshortcuts="ArrowRight"
           >
             <Heart size={32} />
           </Button>
         </div>
+        
+        <p className="hidden md:block text-center text-xs text-princeton-white/50 pb-4">
+          ← pass · → like · ↑ super like · U undo · Space next photo · Enter view profile
+        </p>
       </div>
+      
+      <DiscoveryFiltersSheet
+        open={filtersOpen}
+        onOpenChange={setFiltersOpen}
+        filters={discoveryFilters}
+        onApplied={() => setRewoundCard(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter,
+  DialogHeader, DialogTitle
+} from '@/components/ui/dialog';
+import { unmatch } from '@/lib/api';
+import { messagesQueryKey } from '@/lib/message-cache';
+
+interface UnmatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  matchId: string;
+  // The other person; authId is what profile and report routes use
+  partner: { authId: string; name: string };
+}
+
+/**
+ * Confirms an unmatch, optionally sending the user on to report the person afterwards
+ */
+const UnmatchDialog: React.FC<UnmatchDialogProps> = ({ open, onOpenChange, matchId, partner }) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [alsoReport, setAlsoReport] = useState(false);
+  const [isUnmatching, setIsUnmatching] = useState(false);
+
+  const handleUnmatch = async () => {
+    setIsUnmatching(true);
+    
+    try {
+      await unmatch(matchId);
+      
+      // The conversation is gone for both sides, so drop it from the cache too
+      queryClient.removeQueries({ queryKey: ['match', matchId] });
+      queryClient.removeQueries({ queryKey: messagesQueryKey(matchId) });
+      await queryClient.invalidateQueries({ queryKey: ['matches'] });
+      
+      onOpenChange(false);
+      toast.success(`You unmatched ${partner.name}`);
+      
+      if (alsoReport) {
+        navigate('/report', { state: { from: '/matches', reportedUser: partner } });
+      } else {
+        navigate('/matches');
+      }
+    } catch (error) {
+      toast.error('Failed to unmatch');
+    } finally {
+      setIsUnmatching(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-secondary border-princeton-orange/20" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="text-princeton-white">Unmatch {partner.name}?</DialogTitle>
+          <DialogDescription className="text-princeton-white/70">
+            Your conversation will be deleted for both of you, and you won't see each other again.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="also-report"
+            checked={alsoReport}
+            onCheckedChange={(checked) => setAlsoReport(checked === true)}
+            className="border-princeton-orange/50 data-[state=checked]:bg-princeton-orange data-[state=checked]:text-black"
+          />
+          <Label htmlFor="also-report" className="text-princeton-white">
+            Also report {partner.name}
+          </Label>
+        </div>
+        
+        <DialogFooter>
+          <Button 
+            variant="outline" 
+            onClick={handleUnmatch}
+            disabled={isUnmatching}
+            className="bg-red-500 hover:bg-red-600 text-white"
+          >
+            {isUnmatching ? 'Unmatching...' : 'Unmatch'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnmatchDialog;
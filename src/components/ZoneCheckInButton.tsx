@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { LogIn, LogOut } from 'lucide-react';
+import { checkInToZone, checkOutOfZone, getMyZoneCheckIn } from '@/lib/api';
+
+interface ZoneCheckInButtonProps {
+  zoneId: string;
+  zoneName: string;
+}
+
+/**
+ * Lets the user share that they're at a hot zone, or stop sharing it
+ */
+const ZoneCheckInButton: React.FC<ZoneCheckInButtonProps> = ({ zoneId, zoneName }) => {
+  const queryClient = useQueryClient();
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const { data: checkIn } = useQuery({
+    queryKey: ['zone-checkin'],
+    queryFn: getMyZoneCheckIn
+  });
+
+  const isCheckedInHere = checkIn?.hot_zone_id === zoneId;
+
+  const handleClick = async () => {
+    setIsUpdating(true);
+
+    try {
+      if (isCheckedInHere) {
+        await checkOutOfZone();
+        toast.success(`Checked out of ${zoneName}`);
+      } else {
+        await checkInToZone(zoneId);
+        toast.success(`Checked in to ${zoneName}`);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['zone-checkin'] });
+      queryClient.invalidateQueries({ queryKey: ['hot-zone-matches'] });
+    } catch {
+      toast.error(isCheckedInHere ? "Couldn't check out" : "Couldn't check in");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={isUpdating}
+      aria-pressed={isCheckedInHere}
+      className={`inline-flex items-center px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+        isCheckedInHere
+          ? 'bg-black/30 text-princeton-orange border border-princeton-orange/50 hover:bg-black/50'
+          : 'bg-princeton-orange text-princeton-black hover:bg-princeton-orange/90'
+      }`}
+    >
+      {isCheckedInHere ? <LogOut size={14} className="mr-1" /> : <LogIn size={14} className="mr-1" />}
+      {isCheckedInHere ? "I've left" : "I'm here"}
+    </button>
+  );
+};
+
+export default ZoneCheckInButton;
@@ -2,9 +2,11 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { Session } from '@supabase/supabase-js';
-import { useNavigate } from 'react-router-dom';
-import { UserGender, GenderPreference } from '@/types/database';
-import { updateUserProfile } from '@/lib/api';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { UserGender, GenderPreference, AccountRestriction } from '@/types/database';
+import { updateUserProfile, updateLastActive } from '@/lib/api';
+import { clearOutbox, flushOutbox, setOutboxOwner } from '@/lib/outbox';
+import { getAccountRestriction } from '@/lib/account-status';
 import { toast } from "sonner";
 
 interface AuthContextType {
@@ -14,6 +16,8 @@ interface AuthContextType {
   signOut: () => Promise<void>;
   loading: boolean;
   user: any | null;
+  // Set while the signed-in user is suspended or banned
+  accountRestriction: AccountRestriction | null;
   isProfileComplete: boolean;
   profileComplete: boolean;
   error: Error | null;
@@ -32,6 +36,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isProfileComplete, setIsProfileComplete] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const navigate = useNavigate();
+  const location = useLocation();
+  const accountRestriction = getAccountRestriction(user?.moderation);
 
   // Function to reset errors
   const resetError = () => {
@@ -127,6 +133,42 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // Keep "last seen" fresh while the app is open, unless the user hid their active status
+  const showActive = user?.settings?.showActive !== false;
+  useEffect(() => {
+    if (!user?.id || !showActive) return;
+    
+    updateLastActive();
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        updateLastActive();
+      }
+    }, 5 * 60 * 1000);
+    
+    return () => clearInterval(interval);
+  }, [user?.id, showActive]);
+
+  // Suspended and banned users only get the explanation/appeal screen
+  const restrictionStatus = accountRestriction?.status;
+  useEffect(() => {
+    if (restrictionStatus && location.pathname !== '/suspended') {
+      navigate('/suspended', { replace: true });
+    }
+  }, [restrictionStatus, location.pathname, navigate]);
+
+  // The chat outbox only lists and sends the signed-in account's messages
+  const authUserId = session?.user?.id ?? null;
+  useEffect(() => {
+    setOutboxOwner(authUserId);
+  }, [authUserId]);
+
+  // Send any chat messages still queued from a previous session
+  useEffect(() => {
+    if (user?.id && authUserId) {
+      flushOutbox();
+    }
+  }, [user?.id, authUserId]);
+
   // Helper function to check database access
   const checkUserTableAccess = async (): Promise<boolean> => {
     try {
@@ -189,10 +231,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 bio: '',
                 major: '',
                 gender: 'other' as UserGender,
-                gender_preference: 'everyone' as GenderPreference,
+                gender_preference: ['everyone'] as GenderPreference[],
                 profile_complete: false,
-                // Intentionally excluding photo_urls, location, building, latitude, longitude
-                // as they are optional and will be set to their default values
+                // Intentionally excluding photo_urls
+                // as it is optional and will be set to its default value
               });
             
             if (createError) {
@@ -251,7 +293,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         .select(`
           *,
           interests:user_interests(name:interests(*)),
-          clubs:user_clubs(name:clubs(*))
+          clubs:user_clubs(name:clubs(*)),
+          moderation:account_moderation(*)
         `)
         .eq('auth_id', userId)
         .maybeSingle();
@@ -269,6 +312,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
       } else if (userData) {
         console.log("User profile loaded successfully:", userData.id);
+        // A suspended or banned user is taken to /suspended by the redirect effect above
         setUser(userData);
         
         // Check if profile is complete
@@ -276,7 +320,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           userData.bio && 
           userData.major && 
           userData.gender && 
-          userData.gender_preference &&
+          userData.gender_preference?.length &&
           (userData.photo_urls && userData.photo_urls.length > 0)
         );
         
@@ -355,7 +399,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               bio: '',
               major: '',
               gender: 'other' as UserGender, 
-              gender_preference: 'everyone' as GenderPreference,
+              gender_preference: ['everyone'] as GenderPreference[],
               profile_complete: false,
             }
           ]);
@@ -375,6 +419,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   // Rename this function for consistency but keep implementation
   const signOut = async () => {
+    // Unsent messages shouldn't outlive the session on a shared device
+    if (session?.user?.id) {
+      await clearOutbox(session.user.id);
+    }
+    setOutboxOwner(null);
     await supabase.auth.signOut();
     setUser(null);
     setIsProfileComplete(false);
@@ -468,6 +517,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       signOut, 
       loading, 
       user,
+      accountRestriction,
       error,
       isProfileComplete,
       profileComplete: isProfileComplete,
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { joinConversationPresence, ConversationPresence } from '@/lib/realtime';
+import { User } from '@/types/database';
+
+const TYPING_TIMEOUT = 4000;
+const TYPING_THROTTLE = 2000;
+
+/**
+ * Tracks whether the other person in a conversation is online or typing.
+ * Both sides honor settings.showActive: if I turned it off I am never tracked,
+ * and if they turned it off nothing about them is surfaced.
+ */
+export function useConversationPresence(
+  matchId?: string,
+  me?: Pick<User, 'id' | 'settings'> | null,
+  partner?: Pick<User, 'id' | 'settings'> | null
+) {
+  const [isPartnerOnline, setIsPartnerOnline] = useState(false);
+  const [isPartnerTyping, setIsPartnerTyping] = useState(false);
+  const presenceRef = useRef<ConversationPresence | null>(null);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTypingSent = useRef(0);
+
+  const myId = me?.id;
+  const partnerId = partner?.id;
+  const shareActivity = me?.settings?.showActive !== false;
+  const partnerSharesActivity = partner?.settings?.showActive !== false;
+
+  useEffect(() => {
+    if (!matchId || !myId || !partnerId) return;
+
+    const presence = joinConversationPresence(matchId, myId, {
+      shareActivity,
+      onPresenceChange: (onlineUserIds) => {
+        setIsPartnerOnline(onlineUserIds.includes(partnerId));
+      },
+      onTyping: (userId) => {
+        if (userId !== partnerId) return;
+
+        setIsPartnerTyping(true);
+        if (typingTimeout.current) clearTimeout(typingTimeout.current);
+        typingTimeout.current = setTimeout(() => setIsPartnerTyping(false), TYPING_TIMEOUT);
+      },
+    });
+    presenceRef.current = presence;
+
+    return () => {
+      presence.leave();
+      presenceRef.current = null;
+      if (typingTimeout.current) clearTimeout(typingTimeout.current);
+      setIsPartnerOnline(false);
+      setIsPartnerTyping(false);
+    };
+  }, [matchId, myId, partnerId, shareActivity]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastTypingSent.current < TYPING_THROTTLE) return;
+
+    lastTypingSent.current = now;
+    presenceRef.current?.sendTyping();
+  }, []);
+
+  return {
+    isPartnerOnline: partnerSharesActivity && isPartnerOnline,
+    isPartnerTyping: partnerSharesActivity && isPartnerTyping,
+    partnerSharesActivity,
+    notifyTyping,
+  };
+}
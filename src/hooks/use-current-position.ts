@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+
+export interface Position {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Follows the device's position while `enabled`; null until a fix arrives or if location is unavailable
+ */
+export function useCurrentPosition(enabled: boolean) {
+  const [position, setPosition] = useState<Position | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !navigator.geolocation) {
+      setPosition(null);
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      ({ coords }) => setPosition({ latitude: coords.latitude, longitude: coords.longitude }),
+      (error) => {
+        console.error('Error getting current position:', error);
+        setPosition(null);
+      },
+      { enableHighAccuracy: true, maximumAge: 30000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled]);
+
+  return position;
+}
@@ -0,0 +1,66 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { cancelEventRsvp, getEventRsvpMatches, getMyEventRsvps, rsvpToEvent } from '@/lib/api';
+import { EventRsvpMatch } from '@/types/database';
+
+/**
+ * The current user's "I'm going" RSVPs, plus which of their matches are going to the given events.
+ * Toggling is optimistic and rolls back if the server says no.
+ */
+export function useEventRsvps(eventIds: string[]) {
+  const queryClient = useQueryClient();
+  const [pendingEventIds, setPendingEventIds] = useState<string[]>([]);
+
+  // Sorted so the same events in a different order share a cache entry
+  const eventIdsKey = useMemo(() => [...eventIds].sort(), [eventIds]);
+
+  const { data: myRsvps = [] } = useQuery({
+    queryKey: ['event-rsvps'],
+    queryFn: getMyEventRsvps
+  });
+
+  const { data: matchesGoing = [] } = useQuery({
+    queryKey: ['event-rsvp-matches', eventIdsKey],
+    queryFn: () => getEventRsvpMatches(eventIdsKey),
+    enabled: eventIdsKey.length > 0
+  });
+
+  const matchesByEvent = useMemo(() => {
+    const byEvent: Record<string, EventRsvpMatch[]> = {};
+    matchesGoing.forEach(match => {
+      (byEvent[match.eventId] ||= []).push(match);
+    });
+    return byEvent;
+  }, [matchesGoing]);
+
+  const toggleRsvp = useCallback(async (eventId: string) => {
+    const wasGoing = myRsvps.includes(eventId);
+    const previous = myRsvps;
+
+    setPendingEventIds(prev => [...prev, eventId]);
+    queryClient.setQueryData<string[]>(['event-rsvps'], (current = []) =>
+      wasGoing ? current.filter(id => id !== eventId) : [...current, eventId]
+    );
+
+    try {
+      if (wasGoing) {
+        await cancelEventRsvp(eventId);
+      } else {
+        await rsvpToEvent(eventId);
+      }
+    } catch {
+      queryClient.setQueryData(['event-rsvps'], previous);
+      toast.error(wasGoing ? "Couldn't cancel your RSVP" : "Couldn't save your RSVP");
+    } finally {
+      setPendingEventIds(prev => prev.filter(id => id !== eventId));
+    }
+  }, [myRsvps, queryClient]);
+
+  return {
+    isGoing: (eventId: string) => myRsvps.includes(eventId),
+    isPending: (eventId: string) => pendingEventIds.includes(eventId),
+    matchesGoingTo: (eventId: string) => matchesByEvent[eventId] || [],
+    toggleRsvp
+  };
+}
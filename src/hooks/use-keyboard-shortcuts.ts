@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+
+// Keys typed into a field, or pressed while a dialog or sheet is open, belong to that instead
+const shouldIgnore = (event: KeyboardEvent) => {
+  if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return true;
+
+  const target = event.target as HTMLElement | null;
+  if (target?.closest('input, textarea, select, [contenteditable="true"]')) return true;
+  // Enter and Space already activate a focused button or link
+  if ((event.key === 'Enter' || event.key === ' ') && target?.closest('button, a, [role="button"]')) return true;
+
+  return !!document.querySelector('[role="dialog"], [role="alertdialog"]');
+};
+
+/**
+ * Binds page-wide keyboard shortcuts while `enabled`.
+ * Keys are matched against `KeyboardEvent.key`, case-insensitively for letters (e.g. 'ArrowLeft', 'Enter', 'u').
+ */
+export function useKeyboardShortcuts(bindings: Record<string, (event: KeyboardEvent) => void>, enabled: boolean = true) {
+  // Latest bindings without re-subscribing on every render
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (shouldIgnore(event)) return;
+
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const handler = bindingsRef.current[key];
+      if (!handler) return;
+
+      event.preventDefault();
+      handler(event);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
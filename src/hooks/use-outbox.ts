@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  OutboxMessage,
+  flushOutbox,
+  getOutbox,
+  queueMessage,
+  removeFromOutbox,
+  retryOutboxMessage,
+  subscribeToOutbox,
+} from '@/lib/outbox';
+import { addMessageToCache } from '@/lib/message-cache';
+
+const RETRY_INTERVAL = 10000;
+
+/**
+ * Optimistic sending for a conversation.
+ * Returns the queued (pending or failed) messages for the match, plus send/retry/discard actions.
+ */
+export function useOutbox(matchId?: string) {
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<OutboxMessage[]>([]);
+
+  useEffect(() => {
+    if (!matchId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const next = await getOutbox(matchId);
+      if (!cancelled) setItems(next);
+    };
+
+    const unsubscribe = subscribeToOutbox((sent) => {
+      if (sent && sent.item.match_id === matchId) {
+        addMessageToCache(queryClient, matchId, sent.message);
+      }
+      load();
+    });
+
+    // Retry anything left over from a previous visit, and again whenever the network returns
+    load().then(() => flushOutbox());
+    window.addEventListener('online', flushOutbox);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('online', flushOutbox);
+    };
+  }, [matchId, queryClient]);
+
+  // Keep retrying pending messages that failed while we looked online (flaky Wi-Fi)
+  const hasPending = items.some(item => item.status === 'pending');
+  useEffect(() => {
+    if (!hasPending) return;
+
+    const interval = setInterval(flushOutbox, RETRY_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasPending]);
+
+  const send = useCallback(
+    (content: string, replyToId?: string | null) => {
+      if (!matchId) return Promise.resolve(null);
+      return queueMessage(matchId, content, replyToId);
+    },
+    [matchId]
+  );
+
+  return {
+    items,
+    send,
+    retry: retryOutboxMessage,
+    discard: removeFromOutbox,
+  };
+}
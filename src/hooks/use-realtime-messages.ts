@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { subscribeToMatchMessages, RealtimeStatus } from '@/lib/realtime';
+import { addMessageToCache, messagesQueryKey, updateMessageInCache } from '@/lib/message-cache';
+
+/**
+ * Keeps the cached chat history for a match in sync with the realtime channel.
+ * Returns the socket status so callers can fall back to polling while it is down.
+ */
+export function useRealtimeMessages(matchId?: string) {
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<RealtimeStatus>('connecting');
+  const wasDisconnected = useRef(false);
+
+  useEffect(() => {
+    if (!matchId) return;
+
+    const queryKey = messagesQueryKey(matchId);
+
+    const unsubscribe = subscribeToMatchMessages(matchId, {
+      onInsert: (message) => addMessageToCache(queryClient, matchId, message),
+      onUpdate: (message) => updateMessageInCache(queryClient, matchId, message),
+      onStatusChange: (nextStatus) => {
+        setStatus(nextStatus);
+
+        if (nextStatus === 'disconnected') {
+          wasDisconnected.current = true;
+        } else if (nextStatus === 'connected' && wasDisconnected.current) {
+          // Catch up on anything sent while the socket was down
+          wasDisconnected.current = false;
+          queryClient.invalidateQueries({ queryKey });
+        }
+      },
+    });
+
+    return unsubscribe;
+  }, [matchId, queryClient]);
+
+  return status;
+}
@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { getPotentialMatches, DISCOVERY_PAGE_SIZE } from '@/lib/api';
+import { preloadImages } from '@/lib/image';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Fetch the next page once this few cards are left
+const REFILL_THRESHOLD = 3;
+// How many upcoming cards get their photos preloaded
+const PRELOAD_AHEAD = 3;
+
+const readSwipedIds = (storageKey: string): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(storageKey) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * The discovery deck for SwipePage.
+ * Pages are fetched as the deck runs low, excluding everyone already in it, and the next cards' photos are preloaded.
+ * The deck position is kept as the set of profiles swiped this session (in sessionStorage), so it survives
+ * leaving the page and refetches instead of depending on an index into the pages.
+ */
+export function useSwipeDeck() {
+  const { session } = useAuth();
+  const storageKey = `swipe-deck:${session?.user.id ?? 'anonymous'}`;
+  const [swipedIds, setSwipedIds] = useState<string[]>(() => readSwipedIds(storageKey));
+
+  useEffect(() => {
+    setSwipedIds(readSwipedIds(storageKey));
+  }, [storageKey]);
+
+  useEffect(() => {
+    sessionStorage.setItem(storageKey, JSON.stringify(swipedIds));
+  }, [storageKey, swipedIds]);
+
+  const {
+    data,
+    isLoading,
+    isError,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['potential-matches'],
+    queryFn: ({ pageParam }) => getPotentialMatches(pageParam),
+    initialPageParam: [] as string[],
+    // A short page means the pool ran dry
+    getNextPageParam: (lastPage, allPages) =>
+      lastPage.length < DISCOVERY_PAGE_SIZE ? undefined : allPages.flat().map(user => user.id),
+    staleTime: 30000, // Data will be fresh for 30 seconds
+    meta: {
+      onError: (error: Error) => {
+        console.error("Error fetching potential matches:", error);
+        toast.error("Failed to load matches");
+      }
+    }
+  });
+
+  // Cards still to swipe, in order, with any duplicates across pages dropped
+  const remaining = useMemo(() => {
+    const swiped = new Set(swipedIds);
+    const seen = new Set<string>();
+
+    return (data?.pages.flat() || []).filter(user => {
+      if (swiped.has(user.id) || seen.has(user.id)) return false;
+      seen.add(user.id);
+      return true;
+    });
+  }, [data, swipedIds]);
+
+  // Top up the deck before it runs out
+  useEffect(() => {
+    if (remaining.length <= REFILL_THRESHOLD && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [remaining.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Warm the cache with the photos of the cards coming up
+  useEffect(() => {
+    preloadImages(remaining.slice(0, PRELOAD_AHEAD + 1).flatMap(user => user.photo_urls || []));
+  }, [remaining]);
+
+  const markSwiped = useCallback((userId: string) => {
+    setSwipedIds(prev => (prev.includes(userId) ? prev : [...prev, userId]));
+  }, []);
+
+  const unmarkSwiped = useCallback((userId: string) => {
+    setSwipedIds(prev => prev.filter(id => id !== userId));
+  }, []);
+
+  return {
+    remaining,
+    isLoading,
+    isError,
+    isFetchingMore: isFetchingNextPage,
+    refetch,
+    markSwiped,
+    unmarkSwiped
+  };
+}
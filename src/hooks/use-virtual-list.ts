@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListOptions {
+  // Stable key per row, in display order
+  keys: string[];
+  estimateSize: number;
+  overscan?: number;
+  // Keep the list pinned to the end while the user is already at the end (chat style)
+  followEnd?: boolean;
+  // Called when the user scrolls close to the top, e.g. to load older rows
+  onReachStart?: () => void;
+}
+
+export interface VirtualItem {
+  key: string;
+  index: number;
+  start: number;
+}
+
+const END_THRESHOLD = 80;
+const START_THRESHOLD = 200;
+
+/**
+ * Windowed rendering for long, variable-height lists.
+ * Rows are measured after they render; rows that were never on screen use estimateSize.
+ * Prepending rows (loading history) keeps the visible rows where they were.
+ *
+ * Attach `scrollRef` to the scrolling container and `measureElement` to each row,
+ * along with `data-key` and `data-start` attributes.
+ */
+export function useVirtualList({
+  keys,
+  estimateSize,
+  overscan = 6,
+  followEnd = false,
+  onReachStart,
+}: VirtualListOptions) {
+  const [scrollElement, setScrollElement] = useState<HTMLElement | null>(null);
+  // Snapshot of the measured row heights; a new map each time rows are (re)measured
+  const [measuredSizes, setMeasuredSizes] = useState<ReadonlyMap<string, number>>(() => new Map());
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const sizes = useRef(new Map<string, number>());
+  const observer = useRef<ResizeObserver | null>(null);
+  const atEnd = useRef(true);
+  const previousFirstKey = useRef<string | undefined>(undefined);
+  const scrollElementRef = useRef<HTMLElement | null>(null);
+  const estimateSizeRef = useRef(estimateSize);
+  const onReachStartRef = useRef(onReachStart);
+
+  scrollElementRef.current = scrollElement;
+  estimateSizeRef.current = estimateSize;
+  onReachStartRef.current = onReachStart;
+
+  const offsets = useMemo(() => {
+    const result: number[] = new Array(keys.length + 1);
+    result[0] = 0;
+    keys.forEach((key, index) => {
+      result[index + 1] = result[index] + (measuredSizes.get(key) ?? estimateSize);
+    });
+    return result;
+  }, [keys, estimateSize, measuredSizes]);
+
+  const totalSize = offsets[keys.length];
+
+  // Track scroll position and viewport size
+  useEffect(() => {
+    if (!scrollElement) return;
+
+    const update = () => {
+      setViewport({ scrollTop: scrollElement.scrollTop, height: scrollElement.clientHeight });
+      atEnd.current =
+        scrollElement.scrollHeight - scrollElement.scrollTop - scrollElement.clientHeight < END_THRESHOLD;
+
+      if (scrollElement.scrollTop < START_THRESHOLD) {
+        onReachStartRef.current?.();
+      }
+    };
+
+    update();
+    scrollElement.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(scrollElement);
+
+    return () => {
+      scrollElement.removeEventListener('scroll', update);
+      resizeObserver.disconnect();
+    };
+  }, [scrollElement]);
+
+  // Measure rendered rows. The observer is created lazily because row refs
+  // are attached during commit, before any effect has run.
+  const getObserver = useCallback(() => {
+    if (observer.current) return observer.current;
+
+    observer.current = new ResizeObserver(entries => {
+      const el = scrollElementRef.current;
+      let changed = false;
+      let scrollAdjustment = 0;
+
+      entries.forEach(entry => {
+        const target = entry.target as HTMLElement;
+
+        if (!target.isConnected) {
+          observer.current?.unobserve(target);
+          return;
+        }
+
+        const key = target.dataset.key;
+        if (!key) return;
+
+        const height = target.offsetHeight;
+        const previous = sizes.current.get(key) ?? estimateSizeRef.current;
+        if (sizes.current.has(key) && previous === height) return;
+
+        sizes.current.set(key, height);
+        changed = true;
+
+        // A row above the viewport changed size: shift so the visible content doesn't jump
+        const start = Number(target.dataset.start);
+        if (el && !atEnd.current && start + previous <= el.scrollTop) {
+          scrollAdjustment += height - previous;
+        }
+      });
+
+      if (changed) {
+        if (el && scrollAdjustment) {
+          el.scrollTop += scrollAdjustment;
+        }
+        setMeasuredSizes(new Map(sizes.current));
+      }
+    });
+
+    return observer.current;
+  }, []);
+
+  useEffect(() => () => {
+    observer.current?.disconnect();
+    observer.current = null;
+  }, []);
+
+  // Preserve the scroll position when rows are prepended
+  useLayoutEffect(() => {
+    const firstKey = keys[0];
+    const previousKey = previousFirstKey.current;
+    previousFirstKey.current = firstKey;
+
+    if (!scrollElement || !previousKey || previousKey === firstKey) return;
+
+    const previousIndex = keys.indexOf(previousKey);
+    if (previousIndex > 0) {
+      scrollElement.scrollTop += offsets[previousIndex];
+    }
+  }, [keys, offsets, scrollElement]);
+
+  // Stay pinned to the newest row
+  useLayoutEffect(() => {
+    if (scrollElement && followEnd && atEnd.current) {
+      scrollElement.scrollTop = scrollElement.scrollHeight;
+    }
+  }, [followEnd, totalSize, scrollElement]);
+
+  const virtualItems = useMemo<VirtualItem[]>(() => {
+    if (keys.length === 0) return [];
+
+    // Last row whose top is at or above the given offset
+    const findIndex = (offset: number) => {
+      let low = 0;
+      let high = keys.length - 1;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (offsets[mid] <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return low;
+    };
+
+    const startIndex = Math.max(0, findIndex(viewport.scrollTop) - overscan);
+    const endIndex = Math.min(keys.length - 1, findIndex(viewport.scrollTop + viewport.height) + overscan);
+
+    const items: VirtualItem[] = [];
+    for (let index = startIndex; index <= endIndex; index++) {
+      items.push({ key: keys[index], index, start: offsets[index] });
+    }
+    return items;
+  }, [keys, offsets, viewport, overscan]);
+
+  const measureElement = useCallback((el: HTMLElement | null) => {
+    if (el) getObserver().observe(el);
+  }, [getObserver]);
+
+  const scrollToEnd = useCallback(() => {
+    const el = scrollElementRef.current;
+    if (!el) return;
+
+    atEnd.current = true;
+    el.scrollTop = el.scrollHeight;
+  }, []);
+
+  return {
+    scrollRef: setScrollElement,
+    virtualItems,
+    totalSize,
+    measureElement,
+    scrollToEnd,
+  };
+}
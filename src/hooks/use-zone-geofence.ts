@@ -0,0 +1,98 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { checkInToZone, checkOutOfZone, getCurrentUser, getHotZones } from '@/lib/api';
+import { distanceKm } from '@/lib/discovery';
+import { useAuth } from '@/contexts/AuthContext';
+import { HotZone } from '@/types/database';
+
+// Used when a zone doesn't set its own radius
+const DEFAULT_ZONE_RADIUS_M = 150;
+// Check-ins lapse after 45 minutes server-side, so re-confirm well before that while someone stays put
+const REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+const findZoneAt = (zones: HotZone[], latitude: number, longitude: number) =>
+  zones.find(zone =>
+    zone.latitude != null && zone.longitude != null &&
+    distanceKm(latitude, longitude, zone.latitude, zone.longitude) * 1000 <= (zone.radius_m ?? DEFAULT_ZONE_RADIUS_M)
+  );
+
+/**
+ * Checks the user in to a hot zone while they're inside its geofence, and out again when they leave.
+ * Only runs for people who opted in with settings.autoCheckIn and haven't turned location off.
+ */
+export function useZoneGeofence() {
+  const { session } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: getCurrentUser,
+    enabled: !!session
+  });
+
+  const enabled = !!currentUser?.settings?.autoCheckIn && currentUser.settings.locationEnabled !== false;
+
+  const { data: zones = [] } = useQuery({
+    queryKey: ['hot-zones'],
+    queryFn: getHotZones,
+    enabled
+  });
+
+  // Latest zones without restarting the location watch every time a count changes
+  const zonesRef = useRef(zones);
+  zonesRef.current = zones;
+
+  useEffect(() => {
+    if (!enabled || !navigator.geolocation) return;
+
+    // The zone this hook checked the user in to, so a manual check-in elsewhere is left alone
+    let geofencedZoneId: string | null = null;
+    let lastCheckInAt = 0;
+    let isUpdating = false;
+
+    const handlePosition = async ({ coords }: GeolocationPosition) => {
+      if (isUpdating) return;
+
+      const { latitude, longitude } = coords;
+      const zone = findZoneAt(zonesRef.current, latitude, longitude);
+      const isDue = zone && (zone.id !== geofencedZoneId || Date.now() - lastCheckInAt >= REFRESH_INTERVAL_MS);
+      if (!isDue && (zone || !geofencedZoneId)) return;
+
+      isUpdating = true;
+      try {
+        if (zone) {
+          await checkInToZone(zone.id, 'geofence', { latitude, longitude });
+          geofencedZoneId = zone.id;
+          lastCheckInAt = Date.now();
+        } else {
+          await checkOutOfZone();
+          geofencedZoneId = null;
+        }
+
+        queryClient.invalidateQueries({ queryKey: ['zone-checkin'] });
+      } catch {
+        // Logged by the api; the next position update tries again
+      } finally {
+        isUpdating = false;
+      }
+    };
+
+    const handleError = (error: GeolocationPositionError) => {
+      console.error('Error watching location for hot zones:', error);
+    };
+
+    const watchId = navigator.geolocation.watchPosition(handlePosition, handleError, {
+      enableHighAccuracy: true,
+      maximumAge: 60000
+    });
+    // watchPosition goes quiet while the user stays still, so keep the check-in fresh on a timer too
+    const refreshTimer = window.setInterval(() => {
+      navigator.geolocation.getCurrentPosition(handlePosition, handleError, { maximumAge: 60000 });
+    }, REFRESH_INTERVAL_MS);
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      window.clearInterval(refreshTimer);
+    };
+  }, [enabled, queryClient]);
+}
@@ -0,0 +1,23 @@
+import { AccountModeration, AccountRestriction } from '@/types/database';
+
+/**
+ * Works out whether a user is currently suspended or banned.
+ * Suspensions lapse on their own once suspended_until has passed, matching is_account_active in the database.
+ */
+export const getAccountRestriction = (moderation?: Pick<AccountModeration, 'account_status' | 'suspended_until' | 'status_reason'> | null): AccountRestriction | null => {
+  if (!moderation) return null;
+
+  if (moderation.account_status === 'banned') {
+    return { status: 'banned', until: null, reason: moderation.status_reason ?? null };
+  }
+
+  if (
+    moderation.account_status === 'suspended' &&
+    moderation.suspended_until &&
+    new Date(moderation.suspended_until).getTime() > Date.now()
+  ) {
+    return { status: 'suspended', until: moderation.suspended_until, reason: moderation.status_reason ?? null };
+  }
+
+  return null;
+};
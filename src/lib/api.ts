@@ -1,5 +1,25 @@
 import { supabase } from './supabase';
-import { UserGender, GenderPreference, UserWithRelations } from '@/types/database';
+import { compressImage, validateImageFile } from './image';
+import { rankCandidates } from './discovery';
+import { User, UserGender, GenderPreference, UserWithRelations, DiscoveryCandidate, DiscoveryFilters, Admirer, SwipeDirection, SwipeResult, HotZone, NearbyMatch, CampusBuilding, EventRsvpMatch, DistanceBucket, UserLocation, ZoneCheckIn, ZoneCheckInSource, Message, MessageAttachment, MessagePage, MatchSummary, Report, ReportType, ReportStatus, ReportWithUsers, ModerationAction, Appeal } from '@/types/database';
+
+/**
+ * Resolves the logged in user's database ID (most tables reference users.id, not auth_id)
+ */
+const getCurrentDbUserId = async (): Promise<string | null> => {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData.user) return null;
+  
+  const { data, error } = await supabase
+    .from('users')
+    .select('id')
+    .eq('auth_id', userData.user.id)
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data?.id ?? null;
+};
 
 /**
  * Gets the current authenticated user
@@ -57,11 +77,12 @@ export const getUserById = async (userId: string): Promise<UserWithRelations | n
         clubs:user_clubs(name:clubs(*))
       `)
       .eq('auth_id', userId)
-      .single();
+      // Blocked users (in either direction) get no row back, courtesy of users_block_policy
+      .maybeSingle();
     
     if (error) throw error;
     
-    return data as UserWithRelations;
+    return data as UserWithRelations | null;
   } catch (error) {
     console.error('Error getting user by ID:', error);
     return null;
@@ -77,8 +98,7 @@ export const updateUserProfile = async (
     bio?: string;
     major?: string;
     gender?: UserGender;
-    gender_preference?: GenderPreference;
-    building?: string;
+    gender_preference?: GenderPreference[];
     vibe?: string;
     intention?: 'casual' | 'serious';
     photo_urls?: string[];
@@ -296,127 +316,125 @@ export const deleteUserPhoto = async (photoUrl: string): Promise<void> => {
 };
 
 /**
- * Records a user's swipe (like or pass)
+ * Records a user's swipe (pass, like or super like) on someone by auth_id.
+ * The database makes the match if it's mutual; swiping the same person twice is harmless.
  */
 export const recordSwipe = async (
   swipedUserId: string, 
-  direction: 'left' | 'right'
-): Promise<boolean> => {
+  direction: SwipeDirection
+): Promise<SwipeResult> => {
   try {
-    const { data: userData } = await supabase.auth.getUser();
-    if (!userData.user) throw new Error("No authenticated user");
-    
-    const userId = userData.user.id;
-    const liked = direction === 'right';
-    
-    console.log(`Recording swipe: ${userId} swiped ${direction} on ${swipedUserId}`);
-    
-    // Get the database IDs from auth_ids
-    const { data: swiperData, error: swiperError } = await supabase
-      .from('users')
-      .select('id')
-      .eq('auth_id', userId)
-      .single();
-    
-    if (swiperError || !swiperData) {
-      console.error('Error getting swiper ID:', swiperError || 'User not found');
-      return false;
-    }
-    
-    const { data: swipedData, error: swipedError } = await supabase
-      .from('users')
-      .select('id')
-      .eq('auth_id', swipedUserId)
-      .single();
-    
-    if (swipedError || !swipedData) {
-      console.error('Error getting swiped ID:', swipedError || 'User not found');
-      return false;
-    }
+    const { data, error } = await supabase.rpc('record_swipe', {
+      target_auth_id: swipedUserId,
+      swipe_direction: direction
+    });
     
-    const swiperId = swiperData.id;
-    const swipedId = swipedData.id;
+    if (error) throw error;
     
-    if (!swiperId || !swipedId) {
-      console.error('Missing user IDs for swipe operation');
-      return false;
-    }
+    const result = (data as { matched: boolean; match_id: string | null }[])[0];
+    return { matched: !!result?.matched, matchId: result?.match_id ?? null };
+  } catch (error) {
+    console.error('Error recording swipe:', error);
+    throw error;
+  }
+};
+
+/**
+ * How many super likes the current user has left today
+ */
+export const getSuperLikesRemaining = async (): Promise<number> => {
+  try {
+    const { data, error } = await supabase.rpc('get_super_likes_remaining');
     
-    // Record the swipe - using the correct column names from schema
-    const { error } = await supabase
-      .from('swipes')
-      .insert({
-        swiper_id: swiperId,
-        swiped_id: swipedId,
-        direction: liked ? 'right' : 'left'
-      });
+    if (error) throw error;
     
-    if (error) {
-      console.error('Error inserting swipe:', error);
-      return false;
-    }
+    return (data as number) ?? 0;
+  } catch (error) {
+    console.error('Error getting super likes remaining:', error);
+    return 0;
+  }
+};
+
+// How long after swiping the swipe can still be undone (also enforced in the database)
+export const SWIPE_REWIND_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Undoes the current user's most recent swipe, on the user with this database ID, and returns its direction.
+ * Swipes that have turned into a match can't be undone.
+ */
+export const rewindSwipe = async (swipedUserId: string): Promise<SwipeDirection> => {
+  try {
+    const { data, error } = await supabase.rpc('rewind_swipe', {
+      target_swiped_id: swipedUserId
+    });
     
-    // If liked, check if there's a mutual like (a match)
-    if (liked) {
-      console.log("Checking for mutual like...");
-      const { data, error: matchError } = await supabase
-        .from('swipes')
-        .select('*')
-        .eq('swiper_id', swipedId)
-        .eq('swiped_id', swiperId)
-        .eq('direction', 'right')
-        .single();
-      
-      if (matchError) {
-        if (matchError.code !== 'PGRST116') { // Not found error is expected if no match
-          console.error('Error checking for match:', matchError);
-        }
-        return false;
-      }
-      
-      if (data) {
-        console.log('Found a match!', data);
-        // It's a match! Create a new match record
-        
-        // Ensure we follow the constraint where user_id_1 < user_id_2
-        const { error: matchRecordError } = await supabase
-          .from('matches')
-          .insert({
-            user_id_1: swiperId < swipedId ? swiperId : swipedId,
-            user_id_2: swiperId < swipedId ? swipedId : swiperId
-          });
-        
-        if (matchRecordError) {
-          console.error('Error creating match record:', matchRecordError);
-          return false;
-        }
-        
-        return true; // Return true to indicate it's a match
-      }
-    }
+    if (error) throw error;
     
-    return false; // No match
+    return data as SwipeDirection;
   } catch (error) {
-    console.error('Error recording swipe:', error);
-    return false;
+    console.error('Error rewinding swipe:', error);
+    throw error;
+  }
+};
+
+// IDs of users the given user has blocked or been blocked by
+const getBlockedUserIds = async (dbUserId: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('get_blocked_user_ids', {
+    current_user_id: dbUserId
+  });
+  
+  if (error) {
+    console.error("Error getting blocked users:", error);
+    return [];
+  }
+  
+  return ((data || []) as { user_id: string }[]).map(row => row.user_id);
+};
+
+// IDs of users who have super liked the given user
+const getSuperLikerIds = async (dbUserId: string): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('get_super_liker_ids', {
+    current_user_id: dbUserId
+  });
+  
+  if (error) {
+    console.error("Error getting super likers:", error);
+    return [];
   }
+  
+  return ((data || []) as { user_id: string }[]).map(row => row.user_id);
 };
 
+// Profiles per page of the discovery deck
+export const DISCOVERY_PAGE_SIZE = 20;
+
+// Candidates ranked per page. Anyone past this many in the server's pre-ranked order only
+// shows up once the people ahead of them have been swiped on.
+const DISCOVERY_POOL_SIZE = 100;
+
 /**
- * Gets potential matches for the user to swipe on
+ * Gets a page of potential matches for the user to swipe on, best fit first,
+ * each with the reasons it was ranked where it was. Pass the IDs already in the deck to get the next page.
  */
-export const getPotentialMatches = async (): Promise<UserWithRelations[]> => {
+export const getPotentialMatches = async (excludeIds: string[] = []): Promise<DiscoveryCandidate[]> => {
   try {
     const { data: userData } = await supabase.auth.getUser();
     if (!userData.user) return [];
     
     const userId = userData.user.id;
-    const limit = 20;
+    const limit = DISCOVERY_PAGE_SIZE;
+    // The server pre-ranks everyone eligible and returns the top of that list (capped at 200);
+    // we re-rank this bounded pool with proximity and activity, which only the client combines
+    const poolSize = DISCOVERY_POOL_SIZE;
     
-    // First get the user's database ID from auth_id
+    // First get the user's database ID from auth_id, plus what we rank candidates against
     const { data: currentUserData, error: userIdError } = await supabase
       .from('users')
-      .select('id, gender_preference, gender')
+      .select(`
+        id, class_year, vibe, intention, last_active_at,
+        interests:user_interests(name:interests(*)),
+        clubs:user_clubs(name:clubs(*))
+      `)
       .eq('auth_id', userId)
       .maybeSingle(); // Use maybeSingle instead of single
     
@@ -425,63 +443,106 @@ export const getPotentialMatches = async (): Promise<UserWithRelations[]> => {
       return [];
     }
     
-    const dbUserId = currentUserData.id;
-    
-    // Get the user's gender preference
-    const currentUser = currentUserData;
-    
-    // Build query based on gender preference
-    let query = supabase
-      .from('users')
+    // Two-way gender preferences, blocks, unmatches, past swipes and suspensions are all handled server-side
+    const { data, error } = await supabase
+      .rpc('get_discovery_candidates', {
+        current_user_id: currentUserData.id,
+        pool_size: poolSize,
+        exclude_ids: excludeIds
+      })
       .select(`
         *,
         interests:user_interests(name:interests(*)),
         clubs:user_clubs(name:clubs(*))
-      `)
-      .neq('auth_id', userId) // Don't include the current user
-      .eq('profile_complete', true) // Only include users with complete profiles
-      .order('created_at', { ascending: false }) // Get newest profiles first
-      .limit(limit);
-    
-    // Filter based on the user's gender preference
-    if (currentUser.gender_preference !== 'everyone') {
-      query = query.eq('gender', currentUser.gender_preference);
-    }
-    
-    // Get users who haven't been swiped on yet
-    const { data: swipedUserIds, error: swipeError } = await supabase
-      .from('swipes')
-      .select('swiped_id')
-      .eq('swiper_id', dbUserId);
-    
-    if (swipeError) {
-      console.error("Error getting swiped users:", swipeError);
-      // Continue without this filter if there's an error
-    }
-    else if (swipedUserIds && swipedUserIds.length > 0) {
-      // If there are swiped users, exclude them from results
-      const ids = swipedUserIds.map(s => s.swiped_id);
-      query = query.not('id', 'in', `(${ids.join(',')})`);
-    }
-    
-    const { data, error } = await query;
+      `);
     
     if (error) {
       console.error("Error getting potential matches:", error);
       return [];
     }
     
-    return data as UserWithRelations[] || [];
+    const pool = (data || []) as UserWithRelations[];
+    const [superLikerIds, distanceBuckets] = await Promise.all([
+      getSuperLikerIds(currentUserData.id).then(ids => new Set(ids)),
+      getDistanceBuckets(pool.map(candidate => candidate.id))
+    ]);
+    const candidates = pool.map(candidate => ({
+      ...candidate,
+      superLikedMe: superLikerIds.has(candidate.id),
+      distanceBucket: distanceBuckets[candidate.id] ?? null
+    }));
+    
+    const me = currentUserData as unknown as UserWithRelations;
+    return rankCandidates(me, candidates).slice(0, limit);
   } catch (error) {
     console.error('Error getting potential matches:', error);
     return [];
   }
 };
 
+/**
+ * Gets how far the current user is from each of the given users (by database id), as coarse buckets.
+ * Anyone missing from the result has no location, or one of the two has location turned off.
+ */
+export const getDistanceBuckets = async (userIds: string[]): Promise<Record<string, DistanceBucket>> => {
+  if (userIds.length === 0) return {};
+  
+  try {
+    const { data, error } = await supabase.rpc('get_distance_buckets', {
+      target_user_ids: userIds
+    });
+    
+    if (error) throw error;
+    
+    return Object.fromEntries(
+      ((data || []) as { user_id: string; bucket: DistanceBucket }[]).map(row => [row.user_id, row.bucket])
+    );
+  } catch (error) {
+    console.error('Error getting distance buckets:', error);
+    return {};
+  }
+};
+
+/**
+ * Gets the current user's own saved location, with the building it came from
+ */
+export const getMyLocation = async (): Promise<UserLocation | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_locations')
+      .select('*, building:campus_buildings(*)')
+      .maybeSingle();
+    
+    if (error) throw error;
+    
+    return data as UserLocation | null;
+  } catch (error) {
+    console.error('Error getting location:', error);
+    return null;
+  }
+};
+
+/**
+ * Sets the current user's location to the campus building they picked; the database fills in its coordinates.
+ * Only they can read it back; everyone else just sees distance buckets.
+ */
+export const saveMyLocation = async (buildingId: string): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('set_my_location', {
+      target_building_id: buildingId
+    });
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error saving location:', error);
+    throw error;
+  }
+};
+
 /**
  * Gets users who have liked the current user but haven't been swiped on yet
  */
-export const getUserLikers = async (): Promise<UserWithRelations[]> => {
+export const getUserLikers = async (): Promise<Admirer[]> => {
   try {
     const { data: userData } = await supabase.auth.getUser();
     if (!userData.user) return [];
@@ -514,37 +575,39 @@ export const getUserLikers = async (): Promise<UserWithRelations[]> => {
     }
     
     console.log(`Found ${admirers?.length || 0} admirers`);
-    return admirers as UserWithRelations[] || [];
+    
+    // get_user_admirers already leaves out anyone unmatched or blocked
+    const superLikerIds = new Set(await getSuperLikerIds(currentUser.id));
+    
+    return ((admirers || []) as UserWithRelations[])
+      .map(admirer => ({ ...admirer, superLikedMe: superLikerIds.has(admirer.id) }));
   } catch (error) {
     console.error('Error getting user admirers:', error);
     return [];
   }
 };
 
+// Row shape returned by the get_match_summaries RPC
+interface MatchSummaryRow {
+  match_id: string;
+  last_message: string | null;
+  last_message_sender_id: string | null;
+  last_message_at: string | null;
+  unread_count: number;
+}
+
 /**
- * Gets a user's matches
+ * Gets a user's matches with their last message and unread count
  */
-export const getUserMatches = async (): Promise<any[]> => {
+export const getUserMatches = async (): Promise<MatchSummary[]> => {
   try {
-    const { data: userData } = await supabase.auth.getUser();
-    if (!userData.user) return [];
-    
-    const userId = userData.user.id;
-    
-    // First get the user's database ID from auth_id
-    const { data: userInfo, error: userIdError } = await supabase
-      .from('users')
-      .select('id')
-      .eq('auth_id', userId)
-      .maybeSingle(); // Use maybeSingle instead of single
+    const dbUserId = await getCurrentDbUserId();
     
-    if (userIdError || !userInfo) {
-      console.error("Error getting user database ID:", userIdError || "User not found");
+    if (!dbUserId) {
+      console.error("Error getting user database ID: User not found");
       return [];
     }
     
-    const dbUserId = userInfo.id;
-    
     // Get matches where the user is either user_id_1 or user_id_2
     const { data, error } = await supabase
       .from('matches')
@@ -560,33 +623,65 @@ export const getUserMatches = async (): Promise<any[]> => {
       return [];
     }
     
-    if (!data || data.length === 0) {
+    // Conversations with blocked users are hidden
+    const blockedIds = new Set(await getBlockedUserIds(dbUserId));
+    const visibleMatches = (data || []).filter(match =>
+      !blockedIds.has(match.user_id_1) && !blockedIds.has(match.user_id_2)
+    );
+    
+    if (visibleMatches.length === 0) {
       return [];
     }
     
+    // Last message and unread count per match, computed in the database
+    const { data: summaries, error: summariesError } = await supabase.rpc('get_match_summaries', {
+      current_user_id: dbUserId
+    });
+    
+    if (summariesError) {
+      console.error("Error getting match summaries:", summariesError);
+    }
+    
+    const summaryByMatch = new Map<string, MatchSummaryRow>(
+      ((summaries || []) as MatchSummaryRow[]).map(summary => [summary.match_id, summary])
+    );
+    
+    // Loading the match list means the messages reached this device
+    markMessagesAsDelivered(visibleMatches.map(match => match.id));
+    
     // Transform the data to get the matched user
-    const matches = data.map(match => {
+    const matches: MatchSummary[] = visibleMatches.map(match => {
       // Determine which user in the match is the matched user (the other person)
       const matchedUser = match.user1.id === dbUserId ? match.user2 : match.user1;
+      const summary = summaryByMatch.get(match.id);
       
-      // Check for unread messages
-      let unread = false;
-      let lastMessage = null;
-      let lastMessageTime = match.updated_at || match.created_at;
+      const unreadCount = summary?.unread_count ?? 0;
+      const lastActivity = summary?.last_message_at || match.created_at;
+      
+      let lastMessage: string | null = null;
+      if (summary?.last_message_at) {
+        // Photo messages have no text
+        const preview = summary.last_message || '📷 Photo';
+        lastMessage = summary.last_message_sender_id === dbUserId ? `You: ${preview}` : preview;
+      }
       
       return {
         matchId: match.id,
         userId: matchedUser.auth_id,
         name: matchedUser.name,
         photoUrl: matchedUser.photo_urls ? matchedUser.photo_urls[0] : null,
-        lastActivity: lastMessageTime,
-        unread: unread,
-        lastMessage: lastMessage,
-        lastMessageTime: new Date(lastMessageTime).toLocaleDateString()
+        lastActivity,
+        unread: unreadCount > 0,
+        unreadCount,
+        lastMessage,
+        lastMessageTime: new Date(lastActivity).toLocaleDateString()
       };
     });
     
-    return matches;
+    // Most recent conversations first
+    return matches.sort(
+      (a, b) => new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime()
+    );
   } catch (error) {
     console.error('Error getting user matches:', error);
     return [];
@@ -594,50 +689,191 @@ export const getUserMatches = async (): Promise<any[]> => {
 };
 
 /**
- * Gets messages for a specific match
+ * Removes a match for both people, deleting the conversation.
+ * Neither person will show up in the other's discovery again.
+ */
+export const unmatch = async (matchId: string): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('unmatch', { target_match_id: matchId });
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error unmatching:', error);
+    throw error;
+  }
+};
+
+/**
+ * Blocks a user (by database ID). Neither person will see or be able to message the other.
+ */
+export const blockUser = async (userId: string): Promise<void> => {
+  try {
+    const blockerId = await getCurrentDbUserId();
+    if (!blockerId) throw new Error("No authenticated user");
+    
+    const { error } = await supabase
+      .from('blocks')
+      .insert({ blocker_id: blockerId, blocked_id: userId });
+    
+    // Already blocked is fine
+    if (error && error.code !== '23505') throw error;
+  } catch (error) {
+    console.error('Error blocking user:', error);
+    throw error;
+  }
+};
+
+/**
+ * Unblocks a user (by database ID)
+ */
+export const unblockUser = async (userId: string): Promise<void> => {
+  try {
+    const blockerId = await getCurrentDbUserId();
+    if (!blockerId) throw new Error("No authenticated user");
+    
+    const { error } = await supabase
+      .from('blocks')
+      .delete()
+      .eq('blocker_id', blockerId)
+      .eq('blocked_id', userId);
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error unblocking user:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the users the current user has blocked, most recent first
+ */
+export const getBlockedUsers = async (): Promise<User[]> => {
+  try {
+    // Blocked profiles are hidden from the blocker by RLS, so this goes through an RPC
+    const { data, error } = await supabase.rpc('get_my_blocked_users');
+    
+    if (error) throw error;
+    
+    return ((data || []) as User[]).filter(Boolean);
+  } catch (error) {
+    console.error('Error getting blocked users:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets the other person in a match
  */
-export const getMessages = async (matchId: string): Promise<any[]> => {
+export const getMatchPartner = async (matchId: string): Promise<UserWithRelations | null> => {
   try {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) return null;
+    
     const { data, error } = await supabase
+      .from('matches')
+      .select(`
+        id,
+        user1:user_id_1(*, interests:user_interests(name:interests(*)), clubs:user_clubs(name:clubs(*))),
+        user2:user_id_2(*, interests:user_interests(name:interests(*)), clubs:user_clubs(name:clubs(*)))
+      `)
+      .eq('id', matchId)
+      .single();
+    
+    if (error) throw error;
+    
+    const user1 = data.user1 as unknown as UserWithRelations;
+    const user2 = data.user2 as unknown as UserWithRelations;
+    const [me, partner] = user1.auth_id === userData.user.id ? [user1, user2] : [user2, user1];
+    
+    // Chats with blocked users are closed
+    if ((await getBlockedUserIds(me.id)).includes(partner.id)) return null;
+    
+    return partner;
+  } catch (error) {
+    console.error('Error getting match partner:', error);
+    return null;
+  }
+};
+
+export const MESSAGES_PAGE_SIZE = 50;
+
+/**
+ * Gets a page of messages for a specific match, newest first.
+ * Pass the previous page's nextCursor as `before` to load older history.
+ */
+export const getMessages = async (
+  matchId: string,
+  before?: string | null,
+  limit: number = MESSAGES_PAGE_SIZE
+): Promise<MessagePage> => {
+  try {
+    let query = supabase
       .from('messages')
       .select('*')
       .eq('match_id', matchId)
-      .order('created_at', { ascending: true });
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (before) {
+      query = query.lt('created_at', before);
+    }
+    
+    const { data, error } = await query;
     
     if (error) throw error;
     
-    return data;
+    const messages = (data as Message[]).reverse();
+    
+    return {
+      messages,
+      nextCursor: messages.length === limit ? messages[0].created_at : null
+    };
   } catch (error) {
     console.error('Error getting messages:', error);
-    return [];
+    // Let the query surface and retry the error rather than treating it as the start of the history
+    throw error;
   }
 };
 
 /**
- * Sends a message in a match's conversation
+ * Sends a message in a match's conversation, optionally with a photo or as a reply.
+ * `clientId` is an idempotency key: resending with the same key returns the original message.
  */
 export const sendMessage = async (
   matchId: string, 
-  content: string
-): Promise<any> => {
+  content: string,
+  clientId: string = crypto.randomUUID(),
+  options: { attachment?: MessageAttachment; replyToId?: string | null } = {}
+): Promise<Message> => {
   try {
-    const { data: userData } = await supabase.auth.getUser();
-    if (!userData.user) throw new Error("No authenticated user");
-    
-    const senderId = userData.user.id;
+    // sender_id references users.id, not the auth ID
+    const senderId = await getCurrentDbUserId();
+    if (!senderId) throw new Error("No authenticated user");
     
     // Insert the message
-    const { data, error } = await supabase
+    let { data, error } = await supabase
       .from('messages')
       .insert({
         match_id: matchId,
         sender_id: senderId,
         message: content, // Changed from content to message to match schema
-        created_at: new Date().toISOString()
+        client_id: clientId,
+        reply_to_id: options.replyToId ?? null,
+        ...options.attachment
+        // created_at is set by the database; the optimistic bubble keeps its own local timestamp
       })
       .select()
       .single();
     
+    // Already delivered by an earlier attempt - return that row instead of a duplicate
+    if (error?.code === '23505') {
+      ({ data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('client_id', clientId)
+        .single());
+    }
+    
     if (error) throw error;
     
     // Update the match's updated_at timestamp
@@ -655,39 +891,520 @@ export const sendMessage = async (
   }
 };
 
+// How long after sending a message can still be edited or unsent (also enforced in the database)
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
 /**
- * Marks all messages in a match as read
+ * Edits the text of one of the current user's messages
  */
-export const markMessagesAsRead = async (matchId: string): Promise<void> => {
+export const editMessage = async (messageId: string, content: string): Promise<Message> => {
   try {
-    const { data: userData } = await supabase.auth.getUser();
-    if (!userData.user) throw new Error("No authenticated user");
-    
-    const userId = userData.user.id;
-    
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('messages')
-      .update({ read: true })
-      .eq('match_id', matchId)
-      .neq('sender_id', userId)
-      .eq('read', false);
+      .update({ message: content, edited_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .select()
+      .single();
     
     if (error) throw error;
+    
+    return data;
   } catch (error) {
-    console.error('Error marking messages as read:', error);
+    console.error('Error editing message:', error);
     throw error;
   }
 };
 
 /**
- * Gets hot zones (popular locations)
+ * Unsends one of the current user's messages.
+ * The row stays so the conversation (and replies to it) keep their place, but its content is cleared.
  */
-export const getHotZones = async (): Promise<any[]> => {
+export const unsendMessage = async (message: Message): Promise<Message> => {
   try {
     const { data, error } = await supabase
-      .from('hot_zones')
+      .from('messages')
+      .update({
+        message: '',
+        image_path: null,
+        image_thumb_path: null,
+        deleted_at: new Date().toISOString()
+      })
+      .eq('id', message.id)
+      .select()
+      .single();
+    
+    if (error) throw error;
+    
+    // Remove the photo too; a leftover file is harmless, so don't fail the unsend over it
+    const paths = [message.image_path, message.image_thumb_path].filter((path): path is string => !!path);
+    if (paths.length > 0) {
+      const { error: removeError } = await supabase.storage.from(MESSAGE_PHOTOS_BUCKET).remove(paths);
+      if (removeError) console.error('Error removing unsent message photo:', removeError);
+    }
+    
+    return data;
+  } catch (error) {
+    console.error('Error unsending message:', error);
+    throw error;
+  }
+};
+
+/**
+ * Reacts to a message. Reacting with the same emoji again removes the reaction;
+ * a different emoji replaces it. Returns the message's updated reactions.
+ */
+export const toggleReaction = async (messageId: string, emoji: string): Promise<Record<string, string>> => {
+  try {
+    const { data, error } = await supabase.rpc('toggle_message_reaction', {
+      target_message_id: messageId,
+      emoji
+    });
+    
+    if (error) throw error;
+    
+    return data || {};
+  } catch (error) {
+    console.error('Error reacting to message:', error);
+    throw error;
+  }
+};
+
+const MESSAGE_PHOTOS_BUCKET = 'message-photos';
+
+/**
+ * Uploads a photo or GIF for a chat message.
+ * Files live in a private bucket under the match ID, so only the two participants can read them.
+ */
+export const uploadMessageImage = async (matchId: string, file: File): Promise<MessageAttachment> => {
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) throw new Error("No authenticated user");
+    
+    const validationError = validateImageFile(file);
+    if (validationError) throw new Error(validationError);
+    
+    const [image, thumbnail] = await Promise.all([
+      compressImage(file),
+      compressImage(file, 320, 0.7)
+    ]);
+    
+    // Create a unique file name using the current timestamp
+    const baseName = `${matchId}/${userData.user.id}-${Date.now()}`;
+    const imagePath = `${baseName}.${image.name.split('.').pop()}`;
+    const thumbPath = `${baseName}-thumb.${thumbnail.name.split('.').pop()}`;
+    
+    const uploads = await Promise.all([
+      supabase.storage.from(MESSAGE_PHOTOS_BUCKET).upload(imagePath, image, { cacheControl: '3600', upsert: false }),
+      supabase.storage.from(MESSAGE_PHOTOS_BUCKET).upload(thumbPath, thumbnail, { cacheControl: '3600', upsert: false })
+    ]);
+    
+    const uploadError = uploads.find(upload => upload.error)?.error;
+    if (uploadError) throw uploadError;
+    
+    return { image_path: imagePath, image_thumb_path: thumbPath };
+  } catch (error) {
+    console.error('Error uploading message image:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets a short-lived URL for a chat photo (the bucket is private)
+ */
+export const getMessageImageUrl = async (path: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase
+      .storage
+      .from(MESSAGE_PHOTOS_BUCKET)
+      .createSignedUrl(path, 60 * 60);
+    
+    if (error) throw error;
+    
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error getting message image URL:', error);
+    return null;
+  }
+};
+
+/**
+ * Marks the other person's messages in the given matches as delivered to this device
+ */
+export const markMessagesAsDelivered = async (matchIds: string[]): Promise<void> => {
+  try {
+    if (matchIds.length === 0) return;
+    
+    const userId = await getCurrentDbUserId();
+    if (!userId) throw new Error("No authenticated user");
+    
+    const { error } = await supabase
+      .from('messages')
+      .update({ delivered_at: new Date().toISOString() })
+      .in('match_id', matchIds)
+      .neq('sender_id', userId)
+      .is('delivered_at', null);
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking messages as delivered:', error);
+  }
+};
+
+/**
+ * Marks all messages in a match as read
+ */
+export const markMessagesAsRead = async (matchId: string): Promise<void> => {
+  try {
+    const userId = await getCurrentDbUserId();
+    if (!userId) throw new Error("No authenticated user");
+    
+    // Anything being read has also been delivered
+    await markMessagesAsDelivered([matchId]);
+    
+    const { error } = await supabase
+      .from('messages')
+      .update({ read: true, read_at: new Date().toISOString() })
+      .eq('match_id', matchId)
+      .neq('sender_id', userId)
+      .eq('read', false);
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking messages as read:', error);
+    throw error;
+  }
+};
+
+const REPORT_SCREENSHOTS_BUCKET = 'report-screenshots';
+export const MAX_REPORT_SCREENSHOTS = 3;
+
+/**
+ * Submits a report. When launched from a profile or chat it also records who, which match
+ * and which message it is about, and uploads any screenshots to a private bucket.
+ */
+export const submitReport = async (report: {
+  type: ReportType;
+  details: string;
+  reportedUserAuthId?: string;
+  matchId?: string;
+  messageId?: string;
+  screenshots?: File[];
+}): Promise<Report> => {
+  try {
+    const { data: userData } = await supabase.auth.getUser();
+    if (!userData.user) throw new Error("No authenticated user");
+    
+    const reporterId = await getCurrentDbUserId();
+    if (!reporterId) throw new Error("No authenticated user");
+    
+    // Reports reference users.id, but screens only know the auth ID
+    let reportedUserId: string | null = null;
+    if (report.reportedUserAuthId) {
+      const { data: reportedUser, error: reportedUserError } = await supabase
+        .from('users')
+        .select('id')
+        .eq('auth_id', report.reportedUserAuthId)
+        .maybeSingle();
+      
+      if (reportedUserError) throw reportedUserError;
+      reportedUserId = reportedUser?.id ?? null;
+    }
+    
+    const screenshots = (report.screenshots || []).slice(0, MAX_REPORT_SCREENSHOTS);
+    const screenshotPaths: string[] = [];
+    
+    for (const [index, file] of screenshots.entries()) {
+      const validationError = validateImageFile(file);
+      if (validationError) throw new Error(validationError);
+      
+      const image = await compressImage(file);
+      const path = `${userData.user.id}/${Date.now()}-${index}.${image.name.split('.').pop()}`;
+      
+      const { error: uploadError } = await supabase
+        .storage
+        .from(REPORT_SCREENSHOTS_BUCKET)
+        .upload(path, image, { cacheControl: '3600', upsert: false });
+      
+      if (uploadError) throw uploadError;
+      screenshotPaths.push(path);
+    }
+    
+    const { data, error } = await supabase
+      .from('reports')
+      .insert({
+        reporter_id: reporterId,
+        reported_user_id: reportedUserId,
+        match_id: report.matchId ?? null,
+        message_id: report.messageId ?? null,
+        type: report.type,
+        details: report.details,
+        screenshot_paths: screenshotPaths
+      })
+      .select()
+      .single();
+    
+    if (error) throw error;
+    
+    return data as Report;
+  } catch (error) {
+    console.error('Error submitting report:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the reports the current user has filed, newest first, so they can follow their status
+ */
+export const getMyReports = async (): Promise<Report[]> => {
+  try {
+    const reporterId = await getCurrentDbUserId();
+    if (!reporterId) return [];
+    
+    const { data, error } = await supabase
+      .from('reports')
+      .select('*, reported_user:reported_user_id(id, auth_id, name, photo_urls)')
+      .eq('reporter_id', reporterId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    
+    return (data || []) as Report[];
+  } catch (error) {
+    console.error('Error getting reports:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets reports for the moderator console, oldest first so nothing waits too long.
+ * Only works for staff (enforced by RLS).
+ */
+export const getReportsForReview = async (status: ReportStatus): Promise<ReportWithUsers[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('reports')
+      .select(`
+        *,
+        reporter:reporter_id(id, auth_id, name),
+        reported_user:reported_user_id(*, interests:user_interests(name:interests(*)), clubs:user_clubs(name:clubs(*)), moderation:account_moderation(*))
+      `)
+      .eq('status', status)
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    
+    return (data || []) as ReportWithUsers[];
+  } catch (error) {
+    console.error('Error getting reports for review:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the chat excerpt around a reported message, for moderators
+ */
+export const getReportMessages = async (reportId: string): Promise<Message[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_report_messages', {
+      target_report_id: reportId
+    });
+    
+    if (error) throw error;
+    
+    return (data || []) as Message[];
+  } catch (error) {
+    console.error('Error getting report messages:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets a short-lived URL for a report screenshot (moderators and the reporter only)
+ */
+export const getReportScreenshotUrl = async (path: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase
+      .storage
+      .from(REPORT_SCREENSHOTS_BUCKET)
+      .createSignedUrl(path, 60 * 60);
+    
+    if (error) throw error;
+    
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error getting report screenshot URL:', error);
+    return null;
+  }
+};
+
+/**
+ * Marks a report as being reviewed, or dismisses it. Logged in the audit trail.
+ */
+export const updateReportStatus = async (
+  reportId: string,
+  status: 'reviewing' | 'dismissed',
+  reason?: string
+): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('update_report_status', {
+      target_report_id: reportId,
+      new_status: status,
+      reason: reason || null
+    });
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating report status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Takes action against a user (warn, suspend, ban or remove photos).
+ * Logged in the audit trail; the report, if given, is marked as actioned.
+ */
+export const moderateUser = async (action: {
+  targetUserId: string;
+  action: 'warn' | 'suspend' | 'ban' | 'remove_photos';
+  reason: string;
+  reportId?: string;
+  suspendDays?: number;
+  // Photos to unlink from the profile; leave out to remove all of them
+  photoUrls?: string[];
+}): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('moderate_user', {
+      target_user_id: action.targetUserId,
+      action: action.action,
+      reason: action.reason,
+      target_report_id: action.reportId ?? null,
+      suspend_days: action.suspendDays ?? null,
+      photo_urls_to_remove: action.photoUrls ?? null
+    });
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error moderating user:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the moderation history for a user, newest first
+ */
+export const getModerationHistory = async (targetUserId: string): Promise<ModerationAction[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('moderation_actions')
+      .select('*, moderator:moderator_id(id, name)')
+      .eq('target_user_id', targetUserId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    
+    return (data || []) as ModerationAction[];
+  } catch (error) {
+    console.error('Error getting moderation history:', error);
+    return [];
+  }
+};
+
+/**
+ * Appeals the current user's suspension or ban
+ */
+export const submitAppeal = async (message: string): Promise<Appeal> => {
+  try {
+    const userId = await getCurrentDbUserId();
+    if (!userId) throw new Error("No authenticated user");
+    
+    const { data, error } = await supabase
+      .from('appeals')
+      .insert({ user_id: userId, message })
+      .select()
+      .single();
+    
+    // Only one open appeal at a time
+    if (error?.code === '23505') throw new Error("You already have an appeal waiting for review");
+    if (error) throw error;
+    
+    return data as Appeal;
+  } catch (error) {
+    console.error('Error submitting appeal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the current user's appeals, newest first
+ */
+export const getMyAppeals = async (): Promise<Appeal[]> => {
+  try {
+    const userId = await getCurrentDbUserId();
+    if (!userId) return [];
+    
+    const { data, error } = await supabase
+      .from('appeals')
       .select('*')
-      .order('active_users', { ascending: false });
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    
+    return (data || []) as Appeal[];
+  } catch (error) {
+    console.error('Error getting appeals:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets appeals waiting for a moderator, oldest first
+ */
+export const getPendingAppeals = async (): Promise<Appeal[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('appeals')
+      .select('*, user:user_id(id, name, moderation:account_moderation(*))')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+    
+    if (error) throw error;
+    
+    return (data || []) as Appeal[];
+  } catch (error) {
+    console.error('Error getting pending appeals:', error);
+    throw error;
+  }
+};
+
+/**
+ * Resolves an appeal; overturning it reinstates the account. Logged in the audit trail.
+ */
+export const resolveAppeal = async (appealId: string, overturn: boolean, note: string): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('resolve_appeal', {
+      target_appeal_id: appealId,
+      overturn,
+      note
+    });
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error resolving appeal:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets hot zones (popular locations)
+ */
+export const getHotZones = async (): Promise<HotZone[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('hot_zones')
+      .select('*, events:hot_zone_events(*)')
+      .order('active_users', { ascending: false })
+      .order('starts_at', { referencedTable: 'hot_zone_events', ascending: true });
     
     if (error) throw error;
     
@@ -699,7 +1416,218 @@ export const getHotZones = async (): Promise<any[]> => {
 };
 
 /**
- * Updates user settings
+ * Gets the campus buildings shown on the hot zone map
+ */
+export const getCampusBuildings = async (): Promise<CampusBuilding[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('campus_buildings')
+      .select('*')
+      .order('name');
+    
+    if (error) throw error;
+    
+    return data || [];
+  } catch (error) {
+    console.error('Error getting campus buildings:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets a hot zone with its full event schedule, soonest first
+ */
+export const getHotZone = async (zoneId: string): Promise<HotZone | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('hot_zones')
+      .select('*, events:hot_zone_events(*)')
+      .eq('id', zoneId)
+      .order('starts_at', { referencedTable: 'hot_zone_events', ascending: true })
+      .maybeSingle();
+    
+    if (error) throw error;
+    
+    return data as HotZone | null;
+  } catch (error) {
+    console.error('Error getting hot zone:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the current user's matches who are around a hot zone right now
+ */
+export const getHotZoneMatches = async (zoneId: string): Promise<NearbyMatch[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_hot_zone_matches', {
+      target_zone_id: zoneId
+    });
+    
+    if (error) throw error;
+    
+    return ((data || []) as { match_id: string; auth_id: string; name: string; photo_url: string | null; last_active_at: string | null }[])
+      .map(row => ({
+        matchId: row.match_id,
+        authId: row.auth_id,
+        name: row.name,
+        photoUrl: row.photo_url,
+        lastActiveAt: row.last_active_at
+      }));
+  } catch (error) {
+    console.error('Error getting matches near hot zone:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets the ids of the hot zone events the current user said they're going to
+ */
+export const getMyEventRsvps = async (): Promise<string[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('event_rsvps')
+      .select('event_id');
+    
+    if (error) throw error;
+    
+    return (data || []).map(rsvp => rsvp.event_id);
+  } catch (error) {
+    console.error('Error getting event RSVPs:', error);
+    return [];
+  }
+};
+
+/**
+ * Marks the current user as going to a hot zone event
+ */
+export const rsvpToEvent = async (eventId: string): Promise<void> => {
+  try {
+    const currentUserId = await getCurrentDbUserId();
+    if (!currentUserId) throw new Error('Not signed in');
+    
+    const { error } = await supabase
+      .from('event_rsvps')
+      .upsert({ event_id: eventId, user_id: currentUserId }, { onConflict: 'event_id,user_id', ignoreDuplicates: true });
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error RSVPing to event:', error);
+    throw error;
+  }
+};
+
+/**
+ * Takes back the current user's RSVP to a hot zone event
+ */
+export const cancelEventRsvp = async (eventId: string): Promise<void> => {
+  try {
+    const currentUserId = await getCurrentDbUserId();
+    if (!currentUserId) throw new Error('Not signed in');
+    
+    const { error } = await supabase
+      .from('event_rsvps')
+      .delete()
+      .eq('event_id', eventId)
+      .eq('user_id', currentUserId);
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error cancelling event RSVP:', error);
+    throw error;
+  }
+};
+
+/**
+ * Gets the current user's matches who RSVP'd to any of the given events
+ */
+export const getEventRsvpMatches = async (eventIds: string[]): Promise<EventRsvpMatch[]> => {
+  if (eventIds.length === 0) return [];
+  
+  try {
+    const { data, error } = await supabase.rpc('get_event_rsvp_matches', {
+      target_event_ids: eventIds
+    });
+    
+    if (error) throw error;
+    
+    return ((data || []) as { event_id: string; match_id: string; auth_id: string; name: string; photo_url: string | null }[])
+      .map(row => ({
+        eventId: row.event_id,
+        matchId: row.match_id,
+        authId: row.auth_id,
+        name: row.name,
+        photoUrl: row.photo_url
+      }));
+  } catch (error) {
+    console.error('Error getting matches going to events:', error);
+    return [];
+  }
+};
+
+/**
+ * Gets the current user's live hot zone check-in, if any
+ */
+export const getMyZoneCheckIn = async (): Promise<ZoneCheckIn | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('zone_checkins')
+      .select('*')
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    
+    if (error) throw error;
+    
+    return data as ZoneCheckIn | null;
+  } catch (error) {
+    console.error('Error getting zone check-in:', error);
+    return null;
+  }
+};
+
+/**
+ * Checks the current user in to a hot zone, moving any check-in they had elsewhere.
+ * Checking in again refreshes the check-in before it lapses. Geofence check-ins must pass the
+ * current position, which the server checks against the zone's radius but doesn't keep.
+ */
+export const checkInToZone = async (
+  zoneId: string,
+  source: ZoneCheckInSource = 'manual',
+  position?: { latitude: number; longitude: number }
+): Promise<ZoneCheckIn> => {
+  try {
+    const { data, error } = await supabase.rpc('check_in_to_zone', {
+      target_zone_id: zoneId,
+      checkin_source: source,
+      current_latitude: position?.latitude ?? null,
+      current_longitude: position?.longitude ?? null
+    });
+    
+    if (error) throw error;
+    
+    return data as ZoneCheckIn;
+  } catch (error) {
+    console.error('Error checking in to zone:', error);
+    throw error;
+  }
+};
+
+/**
+ * Checks the current user out of whichever hot zone they're in
+ */
+export const checkOutOfZone = async (): Promise<void> => {
+  try {
+    const { error } = await supabase.rpc('check_out_of_zone');
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error checking out of zone:', error);
+    throw error;
+  }
+};
+
+/**
+ * Updates user settings, keeping any settings not passed in
  */
 export const updateUserSettings = async (
   settings: {
@@ -713,6 +1641,8 @@ export const updateUserSettings = async (
     soundEffects?: boolean;
     language?: string;
     dataUsage?: string;
+    discoveryFilters?: DiscoveryFilters;
+    autoCheckIn?: boolean;
     [key: string]: any;
   }
 ): Promise<void> => {
@@ -727,7 +1657,7 @@ export const updateUserSettings = async (
     // Get the current user by auth_id to get their database ID
     const { data: userData, error: userError } = await supabase
       .from('users')
-      .select('id')
+      .select('id, settings')
       .eq('auth_id', userId)
       .single();
     
@@ -740,12 +1670,13 @@ export const updateUserSettings = async (
       throw new Error("User not found");
     }
     
-    // Update the settings directly in the database
-    // No need to fetch current settings first since we're using JSONB
+    // Merge into what's already saved so changing one setting doesn't wipe the others
     const { error } = await supabase
       .from('users')
       .update({ 
-        settings: settings,
+        settings: { ...(userData.settings || {}), ...settings },
+        // Turning off active status also forgets when we last saw them
+        ...(settings.showActive === false ? { last_active_at: null } : {}),
         updated_at: new Date().toISOString()
       })
       .eq('auth_id', userId);
@@ -763,6 +1694,25 @@ export const updateUserSettings = async (
   }
 };
 
+/**
+ * Records that the current user was just active, for "last seen" in chat
+ */
+export const updateLastActive = async (): Promise<void> => {
+  try {
+    const { data: sessionData } = await supabase.auth.getSession();
+    if (!sessionData?.session?.user) return;
+    
+    const { error } = await supabase
+      .from('users')
+      .update({ last_active_at: new Date().toISOString() })
+      .eq('auth_id', sessionData.session.user.id);
+    
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating last active time:', error);
+  }
+};
+
 /**
  * Delete user account
  */
@@ -0,0 +1,77 @@
+// The part of campus the hot zone map covers, from Nassau Street down to Lake Carnegie
+export const CAMPUS_BOUNDS = {
+  north: 40.3525,
+  south: 40.3380,
+  west: -74.6640,
+  east: -74.6470,
+};
+
+export const MAP_WIDTH = 1000;
+
+const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+// Degrees of longitude shrink with latitude, so scale them to keep the map from stretching sideways
+const LONGITUDE_SCALE = Math.cos(toRad((CAMPUS_BOUNDS.north + CAMPUS_BOUNDS.south) / 2));
+
+export const MAP_HEIGHT = Math.round(
+  MAP_WIDTH * (CAMPUS_BOUNDS.north - CAMPUS_BOUNDS.south) / ((CAMPUS_BOUNDS.east - CAMPUS_BOUNDS.west) * LONGITUDE_SCALE)
+);
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Projects a coordinate onto the campus map's viewBox (equirectangular, which is plenty at this scale)
+ */
+export const projectToMap = (latitude: number, longitude: number): MapPoint => ({
+  x: ((longitude - CAMPUS_BOUNDS.west) / (CAMPUS_BOUNDS.east - CAMPUS_BOUNDS.west)) * MAP_WIDTH,
+  y: ((CAMPUS_BOUNDS.north - latitude) / (CAMPUS_BOUNDS.north - CAMPUS_BOUNDS.south)) * MAP_HEIGHT,
+});
+
+export const isOnCampusMap = (latitude: number, longitude: number) =>
+  latitude <= CAMPUS_BOUNDS.north && latitude >= CAMPUS_BOUNDS.south &&
+  longitude >= CAMPUS_BOUNDS.west && longitude <= CAMPUS_BOUNDS.east;
+
+/**
+ * Radius of a zone's heat bubble: grows with the square root of its occupancy so
+ * the area tracks the head count, relative to the busiest zone
+ */
+export const heatBubbleRadius = (activeUsers: number, maxActiveUsers: number) => {
+  const MIN_RADIUS = 24;
+  const MAX_RADIUS = 90;
+  if (activeUsers <= 0 || maxActiveUsers <= 0) return MIN_RADIUS;
+  return MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.sqrt(activeUsers / maxActiveUsers);
+};
+
+// Bundled base map: the main streets, paths and the lake, as [latitude, longitude] polylines,
+// so the map works offline and needs no tile server
+export const CAMPUS_STREETS: { name: string; points: [number, number][] }[] = [
+  { name: 'Nassau Street', points: [[40.3514, -74.6640], [40.3510, -74.6560], [40.3507, -74.6470]] },
+  { name: 'Washington Road', points: [[40.3508, -74.6534], [40.3470, -74.6532], [40.3430, -74.6530], [40.3395, -74.6528]] },
+  { name: 'Prospect Avenue', points: [[40.3481, -74.6532], [40.3478, -74.6500], [40.3476, -74.6470]] },
+  { name: 'University Place', points: [[40.3508, -74.6608], [40.3470, -74.6612], [40.3440, -74.6616]] },
+  { name: 'Elm Drive', points: [[40.3486, -74.6566], [40.3458, -74.6572], [40.3428, -74.6582]] },
+  { name: 'Faculty Road', points: [[40.3412, -74.6640], [40.3410, -74.6580], [40.3405, -74.6528]] },
+];
+
+export const CAMPUS_LAKE: [number, number][] = [
+  [40.3396, -74.6640], [40.3392, -74.6580], [40.3394, -74.6520], [40.3390, -74.6470],
+  [40.3380, -74.6470], [40.3380, -74.6640],
+];
+
+export const CAMPUS_GREENS: { name: string; points: [number, number][] }[] = [
+  { name: 'Cannon Green', points: [[40.3487, -74.6574], [40.3487, -74.6562], [40.3481, -74.6562], [40.3481, -74.6574]] },
+  { name: 'Poe Field', points: [[40.3445, -74.6520], [40.3445, -74.6500], [40.3432, -74.6500], [40.3432, -74.6520]] },
+];
+
+/**
+ * Turns a [latitude, longitude] polyline into SVG points
+ */
+export const toSvgPoints = (points: [number, number][]) =>
+  points
+    .map(([latitude, longitude]) => {
+      const { x, y } = projectToMap(latitude, longitude);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
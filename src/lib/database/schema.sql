@@ -5,7 +5,7 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE TYPE user_role AS ENUM ('current_student', 'recent_grad', 'class_of_2025', 'alum');
 CREATE TYPE user_vibe AS ENUM ('Looking to Party', 'Looking to Catch Up', 'Down to Roam', 'Looking for a Hook-Up');
 CREATE TYPE user_gender AS ENUM ('male', 'female', 'non-binary', 'other');
-CREATE TYPE gender_preference AS ENUM ('male', 'female', 'everyone');
+CREATE TYPE gender_preference AS ENUM ('male', 'female', 'non-binary', 'other', 'everyone');
 CREATE TYPE user_intention AS ENUM ('casual', 'serious'); -- Added intention enum
 
 -- Create users table with photo_urls array
@@ -252,3 +252,1796 @@ CREATE POLICY messages_insert_policy ON messages
       user_id_2 IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
     )
   );
+
+-- Broadcast message changes over Supabase Realtime (respects the messages RLS policies)
+ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+
+-- Last time the user was active, shown as "last seen" in chat when settings.showActive is on
+ALTER TABLE users ADD COLUMN last_active_at TIMESTAMP WITH TIME ZONE;
+
+-- Delivery and read receipts for messages
+ALTER TABLE messages ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE messages ADD COLUMN read_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX messages_match_created_idx ON messages (match_id, created_at DESC);
+
+-- Policy for updating receipts - only the recipient can mark a message delivered/read
+CREATE POLICY messages_receipt_policy ON messages
+  FOR UPDATE
+  USING (
+    sender_id NOT IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) AND
+    match_id IN (
+      SELECT id FROM matches WHERE 
+      user_id_1 IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) OR
+      user_id_2 IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+    )
+  );
+
+-- The receipt policy lets the recipient update the row, but RLS can't restrict columns,
+-- so the recipient may only touch the receipt fields
+CREATE OR REPLACE FUNCTION guard_message_receipt_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Internal updates (security definer functions, the service role) are trusted
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.sender_id NOT IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) AND
+     (to_jsonb(NEW) - 'read' - 'read_at' - 'delivered_at') IS DISTINCT FROM
+     (to_jsonb(OLD) - 'read' - 'read_at' - 'delivered_at') THEN
+    RAISE EXCEPTION 'Recipients can only update read and delivery receipts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_message_receipt_update_trigger
+BEFORE UPDATE ON messages
+FOR EACH ROW
+EXECUTE FUNCTION guard_message_receipt_update();
+
+-- Last message and unread count for each of a user's matches
+CREATE OR REPLACE FUNCTION get_match_summaries(current_user_id UUID)
+RETURNS TABLE (
+  match_id UUID,
+  last_message TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER
+) AS $$
+  SELECT
+    m.id,
+    last.message,
+    last.sender_id,
+    last.created_at,
+    (
+      SELECT COUNT(*)::INTEGER FROM messages unread
+      WHERE unread.match_id = m.id
+      AND unread.sender_id <> current_user_id
+      AND unread.read = FALSE
+    )
+  FROM matches m
+  LEFT JOIN LATERAL (
+    SELECT message, sender_id, created_at FROM messages
+    WHERE messages.match_id = m.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) last ON TRUE
+  WHERE m.user_id_1 = current_user_id OR m.user_id_2 = current_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- Idempotency key generated on the device, so retried sends from the offline outbox never duplicate
+ALTER TABLE messages ADD COLUMN client_id UUID UNIQUE;
+
+-- Photo and GIF messages. Text is optional when there is an image.
+ALTER TABLE messages ALTER COLUMN message SET DEFAULT '';
+ALTER TABLE messages ADD COLUMN image_path TEXT;
+ALTER TABLE messages ADD COLUMN image_thumb_path TEXT;
+ALTER TABLE messages ADD CONSTRAINT messages_content_check CHECK (message <> '' OR image_path IS NOT NULL);
+
+-- Private bucket for chat photos, same limits as user-photos. Files are stored under <match_id>/...
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('message-photos', 'message-photos', FALSE, 5242880, ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+-- Only the two people in a match can upload or view its photos.
+-- Folder names are compared as text so paths that aren't match ids are simply denied.
+CREATE POLICY message_photos_select_policy ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'message-photos' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM matches WHERE 
+      user_id_1 IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) OR
+      user_id_2 IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+    )
+  );
+
+CREATE POLICY message_photos_insert_policy ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'message-photos' AND
+    (storage.foldername(name))[1] IN (
+      SELECT id::text FROM matches WHERE 
+      user_id_1 IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) OR
+      user_id_2 IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+    )
+  );
+
+-- Replies, edits, unsend and emoji reactions
+ALTER TABLE messages ADD COLUMN reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+ALTER TABLE messages ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE messages ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+-- One reaction per person, keyed by users.id: {"<user id>": "❤️"}
+ALTER TABLE messages ADD COLUMN reactions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Unsent messages keep their row (so replies still point somewhere) but lose their content
+ALTER TABLE messages DROP CONSTRAINT messages_content_check;
+ALTER TABLE messages ADD CONSTRAINT messages_content_check
+  CHECK (message <> '' OR image_path IS NOT NULL OR deleted_at IS NOT NULL);
+
+-- Policy for editing and unsending - only the sender can update their own messages
+CREATE POLICY messages_sender_update_policy ON messages
+  FOR UPDATE
+  USING (sender_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text));
+
+-- RLS can't restrict columns, so this trigger decides who may change what:
+-- the sender edits/unsends within 15 minutes, the recipient sets receipts,
+-- and reactions only change through toggle_message_reaction
+CREATE OR REPLACE FUNCTION guard_message_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  caller_id UUID;
+BEGIN
+  -- Internal updates (security definer functions, the service role) are trusted
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO caller_id FROM users WHERE auth_id = auth.uid()::text;
+
+  IF NEW.match_id <> OLD.match_id OR NEW.sender_id <> OLD.sender_id OR
+     NEW.created_at <> OLD.created_at OR NEW.client_id IS DISTINCT FROM OLD.client_id OR
+     NEW.reply_to_id IS DISTINCT FROM OLD.reply_to_id THEN
+    RAISE EXCEPTION 'These message fields cannot be changed';
+  END IF;
+
+  IF NEW.reactions IS DISTINCT FROM OLD.reactions THEN
+    RAISE EXCEPTION 'Use toggle_message_reaction to react to messages';
+  END IF;
+
+  IF NEW.message IS DISTINCT FROM OLD.message OR
+     NEW.image_path IS DISTINCT FROM OLD.image_path OR
+     NEW.image_thumb_path IS DISTINCT FROM OLD.image_thumb_path OR
+     NEW.edited_at IS DISTINCT FROM OLD.edited_at OR
+     NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    IF caller_id IS DISTINCT FROM OLD.sender_id THEN
+      RAISE EXCEPTION 'Only the sender can edit or unsend a message';
+    END IF;
+    IF OLD.deleted_at IS NOT NULL THEN
+      RAISE EXCEPTION 'This message was unsent';
+    END IF;
+    IF OLD.created_at < NOW() - INTERVAL '15 minutes' THEN
+      RAISE EXCEPTION 'Messages can only be edited or unsent for 15 minutes';
+    END IF;
+  END IF;
+
+  IF (NEW.read IS DISTINCT FROM OLD.read OR
+      NEW.read_at IS DISTINCT FROM OLD.read_at OR
+      NEW.delivered_at IS DISTINCT FROM OLD.delivered_at) AND
+     caller_id = OLD.sender_id THEN
+    RAISE EXCEPTION 'Only the recipient can update receipts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_message_update_trigger
+BEFORE UPDATE ON messages
+FOR EACH ROW
+EXECUTE FUNCTION guard_message_update();
+
+-- The edit/unsend window runs from created_at, so the server sets it rather than trusting the client
+CREATE OR REPLACE FUNCTION stamp_message_created_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.created_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_message_created_at_trigger
+BEFORE INSERT ON messages
+FOR EACH ROW
+EXECUTE FUNCTION stamp_message_created_at();
+
+-- Adds, swaps or removes the caller's reaction. Reacting with the same emoji again removes it.
+CREATE OR REPLACE FUNCTION toggle_message_reaction(target_message_id UUID, emoji TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  caller_id UUID;
+  result JSONB;
+BEGIN
+  SELECT id INTO caller_id FROM users WHERE auth_id = auth.uid()::text;
+
+  UPDATE messages
+  SET reactions = CASE
+    WHEN reactions ->> caller_id::text = emoji THEN reactions - caller_id::text
+    ELSE reactions || jsonb_build_object(caller_id::text, emoji)
+  END
+  WHERE id = target_message_id
+  AND deleted_at IS NULL
+  AND match_id IN (
+    SELECT id FROM matches WHERE user_id_1 = caller_id OR user_id_2 = caller_id
+  )
+  RETURNING reactions INTO result;
+
+  IF result IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Senders can remove photos from messages they unsend
+CREATE POLICY message_photos_delete_policy ON storage.objects
+  FOR DELETE
+  USING (bucket_id = 'message-photos' AND owner = auth.uid());
+
+-- Unsent messages show as such in the matches list
+CREATE OR REPLACE FUNCTION get_match_summaries(current_user_id UUID)
+RETURNS TABLE (
+  match_id UUID,
+  last_message TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER
+) AS $$
+  SELECT
+    m.id,
+    CASE WHEN last.deleted_at IS NOT NULL THEN 'Message unsent' ELSE last.message END,
+    last.sender_id,
+    last.created_at,
+    (
+      SELECT COUNT(*)::INTEGER FROM messages unread
+      WHERE unread.match_id = m.id
+      AND unread.sender_id <> current_user_id
+      AND unread.read = FALSE
+    )
+  FROM matches m
+  LEFT JOIN LATERAL (
+    SELECT message, sender_id, created_at, deleted_at FROM messages
+    WHERE messages.match_id = m.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) last ON TRUE
+  WHERE m.user_id_1 = current_user_id OR m.user_id_2 = current_user_id;
+$$ LANGUAGE sql STABLE;
+
+-- Unmatching removes the match (and its messages) for both people and keeps them apart afterwards
+CREATE TABLE unmatches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  unmatched_user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, unmatched_user_id)
+);
+
+ALTER TABLE unmatches ENABLE ROW LEVEL SECURITY;
+
+-- Policy for unmatches table - people only see the unmatches they made
+CREATE POLICY unmatches_select_policy ON unmatches
+  FOR SELECT
+  USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text));
+
+-- Deletes the match for both sides. Security definer because matches has no DELETE policy.
+CREATE OR REPLACE FUNCTION unmatch(target_match_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  caller_id UUID;
+  partner_id UUID;
+BEGIN
+  SELECT id INTO caller_id FROM users WHERE auth_id = auth.uid()::text;
+
+  SELECT CASE WHEN user_id_1 = caller_id THEN user_id_2 ELSE user_id_1 END
+  INTO partner_id
+  FROM matches
+  WHERE id = target_match_id
+  AND (user_id_1 = caller_id OR user_id_2 = caller_id);
+
+  IF partner_id IS NULL THEN
+    RAISE EXCEPTION 'Match not found';
+  END IF;
+
+  INSERT INTO unmatches (user_id, unmatched_user_id)
+  VALUES (caller_id, partner_id)
+  ON CONFLICT (user_id, unmatched_user_id) DO NOTHING;
+
+  -- Messages go with it (ON DELETE CASCADE)
+  DELETE FROM matches WHERE id = target_match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Everyone the user has unmatched or been unmatched by, to keep them out of discovery
+CREATE OR REPLACE FUNCTION get_unmatched_user_ids(current_user_id UUID)
+RETURNS TABLE (user_id UUID) AS $$
+  SELECT ids.user_id FROM (
+    SELECT unmatched_user_id AS user_id FROM unmatches WHERE unmatches.user_id = current_user_id
+    UNION
+    SELECT unmatches.user_id FROM unmatches WHERE unmatched_user_id = current_user_id
+  ) ids
+  -- Only for yourself
+  WHERE current_user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Don't re-create a match between people who unmatched
+CREATE OR REPLACE FUNCTION create_match_on_mutual_swipe()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unmatches
+    WHERE (user_id = NEW.swiper_id AND unmatched_user_id = NEW.swiped_id)
+    OR (user_id = NEW.swiped_id AND unmatched_user_id = NEW.swiper_id)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if there's a mutual right swipe
+  IF EXISTS (
+    SELECT 1 FROM swipes 
+    WHERE swiper_id = NEW.swiped_id 
+    AND swiped_id = NEW.swiper_id 
+    AND direction = 'right'
+  ) AND NEW.direction = 'right' THEN
+    -- Insert the match with the lower ID first (to maintain our check constraint)
+    IF NEW.swiper_id < NEW.swiped_id THEN
+      INSERT INTO matches (user_id_1, user_id_2)
+      VALUES (NEW.swiper_id, NEW.swiped_id);
+    ELSE
+      INSERT INTO matches (user_id_1, user_id_2)
+      VALUES (NEW.swiped_id, NEW.swiper_id);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Blocking. A block works both ways: neither person sees or can message the other.
+CREATE TABLE blocks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  blocker_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  blocked_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+ALTER TABLE blocks ENABLE ROW LEVEL SECURITY;
+
+-- Policy for blocks table - people manage (and only see) their own blocks
+CREATE POLICY blocks_select_policy ON blocks
+  FOR SELECT
+  USING (blocker_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text));
+
+CREATE POLICY blocks_insert_policy ON blocks
+  FOR INSERT
+  WITH CHECK (blocker_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text));
+
+CREATE POLICY blocks_delete_policy ON blocks
+  FOR DELETE
+  USING (blocker_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text));
+
+-- True if either user has blocked the other. Security definer so it can see the other side's blocks.
+CREATE OR REPLACE FUNCTION is_blocked(user_a UUID, user_b UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocks
+    WHERE (blocker_id = user_a AND blocked_id = user_b)
+    OR (blocker_id = user_b AND blocked_id = user_a)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- True if the signed-in user and the given user have blocked each other in either direction.
+-- Security definer so the users policy below can look up the caller without recursing into itself.
+CREATE OR REPLACE FUNCTION is_blocked_with_caller(other_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users me
+    WHERE me.auth_id = auth.uid()::text
+    AND is_blocked(me.id, other_user_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Blocked users can't read each other's profiles, whatever the API does
+CREATE POLICY users_block_policy ON users
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (NOT is_blocked_with_caller(id));
+
+-- The people the caller has blocked, for the unblock list in settings. The policy above hides
+-- their profiles from the caller too, so this reads just enough of each through security definer.
+CREATE OR REPLACE FUNCTION get_my_blocked_users()
+RETURNS TABLE (id UUID, name TEXT, photo_urls TEXT[], class_year TEXT) AS $$
+  SELECT u.id, u.name, u.photo_urls, u.class_year
+  FROM blocks b
+  JOIN users me ON me.id = b.blocker_id
+  JOIN users u ON u.id = b.blocked_id
+  WHERE me.auth_id = auth.uid()::text
+  ORDER BY b.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Everyone the user has blocked or been blocked by
+CREATE OR REPLACE FUNCTION get_blocked_user_ids(current_user_id UUID)
+RETURNS TABLE (user_id UUID) AS $$
+  SELECT ids.user_id FROM (
+    SELECT blocked_id AS user_id FROM blocks WHERE blocker_id = current_user_id
+    UNION
+    SELECT blocker_id FROM blocks WHERE blocked_id = current_user_id
+  ) ids
+  -- Only for yourself
+  WHERE current_user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- No messages between blocked users, whatever the API does
+CREATE POLICY messages_block_policy ON messages
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (
+    NOT EXISTS (
+      SELECT 1 FROM matches
+      WHERE matches.id = match_id
+      AND is_blocked(matches.user_id_1, matches.user_id_2)
+    )
+  );
+
+-- People who swiped right on the user that they haven't swiped on yet,
+-- leaving out anyone blocked or unmatched. Security definer because swipes
+-- are otherwise only visible to the swiper.
+CREATE OR REPLACE FUNCTION get_user_admirers(current_user_id UUID)
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u
+  JOIN swipes s ON s.swiper_id = u.id
+  WHERE s.swiped_id = current_user_id
+  AND s.direction = 'right'
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes mine
+    WHERE mine.swiper_id = current_user_id AND mine.swiped_id = u.id
+  )
+  AND NOT is_blocked(current_user_id, u.id)
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(current_user_id))
+  AND current_user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  ORDER BY s.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Reports about people, messages or the app itself
+CREATE TABLE reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reporter_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  reported_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  match_id UUID REFERENCES matches(id) ON DELETE SET NULL,
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  -- Copy of the reported message, kept even if it is unsent or the match is deleted
+  message_snapshot TEXT,
+  type TEXT NOT NULL CHECK (type IN ('inappropriate', 'harassment', 'fake', 'technical', 'other')),
+  details TEXT NOT NULL,
+  screenshot_paths TEXT[] DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'actioned', 'dismissed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX reports_status_created_idx ON reports (status, created_at DESC);
+
+CREATE TRIGGER set_reports_timestamp
+BEFORE UPDATE ON reports
+FOR EACH ROW
+EXECUTE PROCEDURE update_modified_column();
+
+-- New reports always start open, and snapshot the reported message.
+-- A reported match has to be between the reporter and the reported user, and a reported message
+-- has to be one the reported user sent in such a match, so reports can't be used to read other chats.
+CREATE OR REPLACE FUNCTION prepare_report()
+RETURNS TRIGGER AS $$
+DECLARE
+  reported_message messages%ROWTYPE;
+BEGIN
+  NEW.status := 'open';
+  NEW.message_snapshot := NULL;
+
+  IF NEW.match_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM matches
+    WHERE id = NEW.match_id
+    AND user_id_1 = LEAST(NEW.reporter_id, NEW.reported_user_id)
+    AND user_id_2 = GREATEST(NEW.reporter_id, NEW.reported_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Match not found';
+  END IF;
+
+  IF NEW.message_id IS NOT NULL THEN
+    SELECT * INTO reported_message FROM messages WHERE id = NEW.message_id;
+
+    IF reported_message.id IS NULL
+      OR reported_message.sender_id IS DISTINCT FROM NEW.reported_user_id
+      OR (NEW.match_id IS NOT NULL AND reported_message.match_id <> NEW.match_id)
+      OR NOT EXISTS (
+        SELECT 1 FROM matches
+        WHERE id = reported_message.match_id
+        AND user_id_1 = LEAST(NEW.reporter_id, NEW.reported_user_id)
+        AND user_id_2 = GREATEST(NEW.reporter_id, NEW.reported_user_id)
+      ) THEN
+      RAISE EXCEPTION 'Message not found';
+    END IF;
+
+    NEW.message_snapshot := reported_message.message;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prepare_report_trigger
+BEFORE INSERT ON reports
+FOR EACH ROW
+EXECUTE PROCEDURE prepare_report();
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+-- Policy for reports table - people file reports as themselves and can follow their status
+CREATE POLICY reports_insert_policy ON reports
+  FOR INSERT
+  WITH CHECK (reporter_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text));
+
+CREATE POLICY reports_select_policy ON reports
+  FOR SELECT
+  USING (reporter_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text));
+
+-- Private bucket for report screenshots, stored under <auth user id>/...
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('report-screenshots', 'report-screenshots', FALSE, 5242880, ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+CREATE POLICY report_screenshots_insert_policy ON storage.objects
+  FOR INSERT
+  WITH CHECK (bucket_id = 'report-screenshots' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY report_screenshots_select_policy ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'report-screenshots' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Staff roles for the moderator console, separate from the class-status user_role
+CREATE TYPE staff_role AS ENUM ('moderator', 'admin');
+
+-- Staff role and moderation state of an account. Kept off users, which everyone can read,
+-- so only the person themselves and staff can see who is staff and who is suspended or banned and why.
+-- No row means an active account with no staff role.
+CREATE TABLE account_moderation (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  staff_role staff_role,
+  account_status TEXT NOT NULL DEFAULT 'active'
+    CHECK (account_status IN ('active', 'suspended', 'banned')),
+  suspended_until TIMESTAMP WITH TIME ZONE,
+  status_reason TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER set_account_moderation_timestamp
+BEFORE UPDATE ON account_moderation
+FOR EACH ROW
+EXECUTE PROCEDURE update_modified_column();
+
+-- True if the signed-in user is a moderator or admin
+CREATE OR REPLACE FUNCTION is_staff()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM account_moderation m
+    JOIN users u ON u.id = m.user_id
+    WHERE u.auth_id = auth.uid()::text AND m.staff_role IS NOT NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+ALTER TABLE account_moderation ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for clients: people see their own row, staff see everyone's.
+-- Rows are only written by the moderation functions below.
+CREATE POLICY account_moderation_select_policy ON account_moderation
+  FOR SELECT
+  USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) OR
+    is_staff()
+  );
+
+-- Audit log of everything moderators do
+CREATE TABLE moderation_actions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  moderator_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  target_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('review', 'dismiss', 'warn', 'suspend', 'ban', 'remove_photos')),
+  reason TEXT,
+  details JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX moderation_actions_target_idx ON moderation_actions (target_user_id, created_at DESC);
+
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- Only staff can read the audit log; rows are only written by the functions below
+CREATE POLICY moderation_actions_select_policy ON moderation_actions
+  FOR SELECT
+  USING (is_staff());
+
+-- Staff see every report and its screenshots
+CREATE POLICY reports_staff_select_policy ON reports
+  FOR SELECT
+  USING (is_staff());
+
+CREATE POLICY report_screenshots_staff_select_policy ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'report-screenshots' AND is_staff());
+
+-- Moves a report to reviewing or dismissed
+CREATE OR REPLACE FUNCTION update_report_status(target_report_id UUID, new_status TEXT, reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  moderator UUID;
+  reported UUID;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF new_status NOT IN ('reviewing', 'dismissed') THEN
+    RAISE EXCEPTION 'Use moderate_user to action a report';
+  END IF;
+
+  SELECT id INTO moderator FROM users WHERE auth_id = auth.uid()::text;
+
+  UPDATE reports SET status = new_status
+  WHERE id = target_report_id
+  RETURNING reported_user_id INTO reported;
+
+  INSERT INTO moderation_actions (moderator_id, target_user_id, report_id, action, reason)
+  VALUES (
+    moderator, reported, target_report_id,
+    CASE WHEN new_status = 'reviewing' THEN 'review' ELSE 'dismiss' END,
+    reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Warns, suspends, bans or removes photos from a user, logs it, and closes the report as actioned
+CREATE OR REPLACE FUNCTION moderate_user(
+  target_user_id UUID,
+  action TEXT,
+  reason TEXT,
+  target_report_id UUID DEFAULT NULL,
+  suspend_days INTEGER DEFAULT NULL,
+  photo_urls_to_remove TEXT[] DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  moderator UUID;
+  action_details JSONB := '{}'::jsonb;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT id INTO moderator FROM users WHERE auth_id = auth.uid()::text;
+
+  IF action = 'warn' THEN
+    INSERT INTO account_moderation (user_id, status_reason)
+    VALUES (target_user_id, reason)
+    ON CONFLICT (user_id) DO UPDATE SET status_reason = EXCLUDED.status_reason;
+  ELSIF action = 'suspend' THEN
+    IF suspend_days IS NULL OR suspend_days < 1 THEN
+      RAISE EXCEPTION 'Suspensions need a number of days';
+    END IF;
+    INSERT INTO account_moderation (user_id, account_status, suspended_until, status_reason)
+    VALUES (target_user_id, 'suspended', NOW() + make_interval(days => suspend_days), reason)
+    ON CONFLICT (user_id) DO UPDATE
+    SET account_status = EXCLUDED.account_status,
+        suspended_until = EXCLUDED.suspended_until,
+        status_reason = EXCLUDED.status_reason;
+    action_details := jsonb_build_object('suspend_days', suspend_days);
+  ELSIF action = 'ban' THEN
+    INSERT INTO account_moderation (user_id, account_status, status_reason)
+    VALUES (target_user_id, 'banned', reason)
+    ON CONFLICT (user_id) DO UPDATE
+    SET account_status = EXCLUDED.account_status,
+        suspended_until = NULL,
+        status_reason = EXCLUDED.status_reason;
+  ELSIF action = 'remove_photos' THEN
+    -- Unlinks the photos from the profile; NULL removes all of them
+    UPDATE users
+    SET photo_urls = CASE
+      WHEN photo_urls_to_remove IS NULL THEN '{}'
+      ELSE ARRAY(SELECT unnest(photo_urls) EXCEPT SELECT unnest(photo_urls_to_remove))
+    END
+    WHERE id = target_user_id;
+    action_details := jsonb_build_object('photo_urls', COALESCE(to_jsonb(photo_urls_to_remove), '"all"'::jsonb));
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action %', action;
+  END IF;
+
+  INSERT INTO moderation_actions (moderator_id, target_user_id, report_id, action, reason, details)
+  VALUES (moderator, target_user_id, target_report_id, action, reason, action_details);
+
+  IF target_report_id IS NOT NULL THEN
+    UPDATE reports SET status = 'actioned' WHERE id = target_report_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The conversation around a reported message (or the end of the reported chat), for staff only
+CREATE OR REPLACE FUNCTION get_report_messages(target_report_id UUID)
+RETURNS SETOF messages AS $$
+DECLARE
+  report_row reports%ROWTYPE;
+  anchor TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO report_row FROM reports WHERE id = target_report_id;
+  IF report_row.match_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT created_at INTO anchor FROM messages WHERE id = report_row.message_id;
+  anchor := COALESCE(anchor, NOW());
+
+  RETURN QUERY
+  SELECT * FROM (
+    (SELECT * FROM messages
+     WHERE match_id = report_row.match_id AND created_at <= anchor
+     ORDER BY created_at DESC LIMIT 15)
+    UNION ALL
+    (SELECT * FROM messages
+     WHERE match_id = report_row.match_id AND created_at > anchor
+     ORDER BY created_at ASC LIMIT 5)
+  ) excerpt
+  ORDER BY created_at ASC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- False while a user is banned or serving a suspension. Suspensions lapse on their own at suspended_until.
+CREATE OR REPLACE FUNCTION is_account_active(target_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users u
+    LEFT JOIN account_moderation m ON m.user_id = u.id
+    WHERE u.id = target_user_id
+    AND (
+      m.user_id IS NULL OR
+      m.account_status = 'active' OR
+      (m.account_status = 'suspended' AND m.suspended_until <= NOW())
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Suspended and banned users can't send messages
+CREATE POLICY messages_active_sender_policy ON messages
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (is_account_active(sender_id));
+
+-- Admirers leave out suspended and banned accounts too
+CREATE OR REPLACE FUNCTION get_user_admirers(current_user_id UUID)
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u
+  JOIN swipes s ON s.swiper_id = u.id
+  WHERE s.swiped_id = current_user_id
+  AND s.direction = 'right'
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes mine
+    WHERE mine.swiper_id = current_user_id AND mine.swiped_id = u.id
+  )
+  AND NOT is_blocked(current_user_id, u.id)
+  AND is_account_active(u.id)
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(current_user_id))
+  AND current_user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  ORDER BY s.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Appeals against a suspension or ban. One open appeal per person at a time.
+CREATE TABLE appeals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'upheld', 'overturned')),
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX appeals_one_pending_idx ON appeals (user_id) WHERE status = 'pending';
+
+ALTER TABLE appeals ENABLE ROW LEVEL SECURITY;
+
+-- Policy for appeals table - people file and follow their own appeals, staff see all of them
+CREATE POLICY appeals_insert_policy ON appeals
+  FOR INSERT
+  WITH CHECK (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) AND
+    status = 'pending'
+  );
+
+CREATE POLICY appeals_select_policy ON appeals
+  FOR SELECT
+  USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text) OR
+    is_staff()
+  );
+
+ALTER TABLE moderation_actions DROP CONSTRAINT moderation_actions_action_check;
+ALTER TABLE moderation_actions ADD CONSTRAINT moderation_actions_action_check
+  CHECK (action IN ('review', 'dismiss', 'warn', 'suspend', 'ban', 'remove_photos', 'reinstate', 'uphold'));
+
+-- Resolves an appeal. Overturning it reinstates the account.
+CREATE OR REPLACE FUNCTION resolve_appeal(target_appeal_id UUID, overturn BOOLEAN, note TEXT)
+RETURNS VOID AS $$
+DECLARE
+  moderator UUID;
+  appellant UUID;
+BEGIN
+  IF NOT is_staff() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT id INTO moderator FROM users WHERE auth_id = auth.uid()::text;
+
+  UPDATE appeals
+  SET status = CASE WHEN overturn THEN 'overturned' ELSE 'upheld' END,
+      resolution_note = note,
+      resolved_at = NOW()
+  WHERE id = target_appeal_id AND status = 'pending'
+  RETURNING user_id INTO appellant;
+
+  IF appellant IS NULL THEN
+    RAISE EXCEPTION 'Appeal not found';
+  END IF;
+
+  IF overturn THEN
+    UPDATE account_moderation
+    SET account_status = 'active', suspended_until = NULL, status_reason = NULL
+    WHERE user_id = appellant;
+  END IF;
+
+  INSERT INTO moderation_actions (moderator_id, target_user_id, action, reason)
+  VALUES (moderator, appellant, CASE WHEN overturn THEN 'reinstate' ELSE 'uphold' END, note);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- "Show me" is now a multi-select, e.g. men and non-binary people.
+-- 'everyone' still means any gender.
+-- Databases created before gender_preference had 'non-binary' and 'other' need them added as a
+-- separate step, committed before running the rest of this section, since Postgres can't use an
+-- enum value in the transaction that added it:
+--   ALTER TYPE gender_preference ADD VALUE IF NOT EXISTS 'non-binary';
+--   ALTER TYPE gender_preference ADD VALUE IF NOT EXISTS 'other';
+
+ALTER TABLE users ALTER COLUMN gender_preference DROP DEFAULT;
+ALTER TABLE users
+  ALTER COLUMN gender_preference TYPE gender_preference[]
+  USING CASE WHEN gender_preference IS NULL THEN '{everyone}' ELSE ARRAY[gender_preference] END;
+ALTER TABLE users ALTER COLUMN gender_preference SET DEFAULT '{everyone}';
+
+-- True if someone with these preferences wants to see someone of this gender.
+-- People who haven't set a gender only show up for 'everyone'.
+CREATE OR REPLACE FUNCTION accepts_gender(preferences gender_preference[], candidate_gender user_gender)
+RETURNS BOOLEAN AS $$
+  SELECT 'everyone' = ANY(COALESCE(preferences, '{everyone}'))
+    OR (candidate_gender IS NOT NULL AND candidate_gender::text = ANY(preferences::text[]));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Discovery pool for the user, newest first. Both people have to be looking for each other's gender,
+-- and anyone already swiped on, blocked, unmatched, suspended or banned is left out.
+-- Security definer because blocks, unmatches and swipes are otherwise only visible to one side.
+CREATE OR REPLACE FUNCTION get_discovery_candidates(current_user_id UUID, pool_size INT DEFAULT 100)
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u, users me
+  WHERE me.id = current_user_id
+  AND me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND u.profile_complete = TRUE
+  AND accepts_gender(me.gender_preference, u.gender)
+  AND accepts_gender(u.gender_preference, me.gender)
+  AND is_account_active(u.id)
+  AND NOT is_blocked(me.id, u.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes s
+    WHERE s.swiper_id = me.id AND s.swiped_id = u.id
+  )
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(me.id))
+  ORDER BY u.created_at DESC
+  LIMIT pool_size;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Per-user app settings, including the discovery filters
+ALTER TABLE users ADD COLUMN IF NOT EXISTS settings JSONB DEFAULT '{}'::jsonb;
+
+-- The first four-digit year in a free-text class year ('2015', 'Class of 2015'), or NULL
+CREATE OR REPLACE FUNCTION class_year_number(class_year TEXT)
+RETURNS INT AS $$
+  SELECT substring(class_year from '\d{4}')::int;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION distance_km(lat1 FLOAT, lon1 FLOAT, lat2 FLOAT, lon2 FLOAT)
+RETURNS FLOAT AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lon2 - lon1) / 2), 2)
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Discovery also applies the filters saved in settings.discoveryFilters:
+-- class year range, roles, max distance from the user's building, vibes and intentions.
+-- A filter that isn't set (or is an empty list) doesn't limit anything.
+CREATE OR REPLACE FUNCTION get_discovery_candidates(current_user_id UUID, pool_size INT DEFAULT 100)
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u, users me,
+  LATERAL (SELECT COALESCE(me.settings->'discoveryFilters', '{}'::jsonb) AS f) filters
+  WHERE me.id = current_user_id
+  AND me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND u.profile_complete = TRUE
+  AND accepts_gender(me.gender_preference, u.gender)
+  AND accepts_gender(u.gender_preference, me.gender)
+  AND is_account_active(u.id)
+  AND NOT is_blocked(me.id, u.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes s
+    WHERE s.swiper_id = me.id AND s.swiped_id = u.id
+  )
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(me.id))
+  -- Saved filters
+  AND (f->>'classYearMin' IS NULL OR class_year_number(u.class_year) >= (f->>'classYearMin')::int)
+  AND (f->>'classYearMax' IS NULL OR class_year_number(u.class_year) <= (f->>'classYearMax')::int)
+  AND (COALESCE(jsonb_array_length(f->'roles'), 0) = 0 OR f->'roles' ? u.role::text)
+  AND (COALESCE(jsonb_array_length(f->'vibes'), 0) = 0 OR f->'vibes' ? u.vibe::text)
+  AND (COALESCE(jsonb_array_length(f->'intentions'), 0) = 0 OR f->'intentions' ? u.intention::text)
+  -- Distance only applies once the user has picked a building
+  AND (
+    f->>'maxDistanceKm' IS NULL OR me.latitude IS NULL OR me.longitude IS NULL OR (
+      u.latitude IS NOT NULL AND u.longitude IS NOT NULL AND
+      distance_km(me.latitude, me.longitude, u.latitude, u.longitude) <= (f->>'maxDistanceKm')::float
+    )
+  )
+  ORDER BY u.created_at DESC
+  LIMIT pool_size;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Undoes the caller's swipe on someone, as long as it's their latest swipe and at most 5 minutes old.
+-- A swipe that has become a match can't be undone, whichever of the two swipes completed it:
+-- the match belongs to both people, so it only goes away through unmatching.
+-- Security definer because swipes have no DELETE policy.
+CREATE OR REPLACE FUNCTION rewind_swipe(target_swiped_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  caller_id UUID;
+  last_swipe swipes%ROWTYPE;
+BEGIN
+  SELECT id INTO caller_id FROM users WHERE auth_id = auth.uid()::text;
+
+  SELECT * INTO last_swipe FROM swipes
+  WHERE swiper_id = caller_id
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF last_swipe.id IS NULL
+    OR last_swipe.swiped_id <> target_swiped_id
+    OR last_swipe.created_at < NOW() - INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Nothing to undo';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM matches
+    WHERE user_id_1 = LEAST(caller_id, target_swiped_id)
+    AND user_id_2 = GREATEST(caller_id, target_swiped_id)
+  ) THEN
+    RAISE EXCEPTION 'This swipe already made a match';
+  END IF;
+
+  DELETE FROM swipes WHERE id = last_swipe.id;
+
+  RETURN last_swipe.direction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Super likes: a like that stands out, limited to a few a day
+ALTER TABLE swipes DROP CONSTRAINT IF EXISTS swipes_direction_check;
+ALTER TABLE swipes ADD CONSTRAINT swipes_direction_check CHECK (direction IN ('left', 'right', 'super'));
+
+CREATE INDEX IF NOT EXISTS swipes_super_likes_idx ON swipes (swiper_id, created_at) WHERE direction = 'super';
+
+-- Every super like spent, kept apart from swipes so rewinding one doesn't hand the allowance back.
+-- Only the functions below touch it.
+CREATE TABLE super_like_spends (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX super_like_spends_user_idx ON super_like_spends (user_id, created_at);
+
+ALTER TABLE super_like_spends ENABLE ROW LEVEL SECURITY;
+
+-- Super likes left today (UTC) for the signed-in user
+CREATE OR REPLACE FUNCTION get_super_likes_remaining()
+RETURNS INT AS $$
+  SELECT GREATEST(0, 3 - COUNT(*))::int FROM super_like_spends
+  WHERE created_at >= date_trunc('day', NOW())
+  AND user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Holds everyone to the daily allowance
+CREATE OR REPLACE FUNCTION enforce_super_like_quota()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.direction = 'super' AND (
+    SELECT COUNT(*) FROM super_like_spends
+    WHERE user_id = NEW.swiper_id
+    AND created_at >= date_trunc('day', NOW())
+  ) >= 3 THEN
+    RAISE EXCEPTION 'No super likes left today';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_super_like_quota_trigger
+BEFORE INSERT ON swipes
+FOR EACH ROW
+EXECUTE PROCEDURE enforce_super_like_quota();
+
+-- Spends the allowance once the super like is actually stored (not for a repeat swipe that inserts nothing)
+CREATE OR REPLACE FUNCTION record_super_like_spend()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.direction = 'super' THEN
+    INSERT INTO super_like_spends (user_id) VALUES (NEW.swiper_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER record_super_like_spend_trigger
+AFTER INSERT ON swipes
+FOR EACH ROW
+EXECUTE PROCEDURE record_super_like_spend();
+
+-- A super like counts as a like when it comes to matching
+CREATE OR REPLACE FUNCTION create_match_on_mutual_swipe()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unmatches
+    WHERE (user_id = NEW.swiper_id AND unmatched_user_id = NEW.swiped_id)
+    OR (user_id = NEW.swiped_id AND unmatched_user_id = NEW.swiper_id)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if there's a mutual like
+  IF EXISTS (
+    SELECT 1 FROM swipes 
+    WHERE swiper_id = NEW.swiped_id 
+    AND swiped_id = NEW.swiper_id 
+    AND direction IN ('right', 'super')
+  ) AND NEW.direction IN ('right', 'super') THEN
+    -- Insert the match with the lower ID first (to maintain our check constraint)
+    IF NEW.swiper_id < NEW.swiped_id THEN
+      INSERT INTO matches (user_id_1, user_id_2)
+      VALUES (NEW.swiper_id, NEW.swiped_id);
+    ELSE
+      INSERT INTO matches (user_id_1, user_id_2)
+      VALUES (NEW.swiped_id, NEW.swiper_id);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE 'plpgsql';
+
+-- Super likes show up as admirers too, ahead of regular likes
+CREATE OR REPLACE FUNCTION get_user_admirers(current_user_id UUID)
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u
+  JOIN swipes s ON s.swiper_id = u.id
+  WHERE s.swiped_id = current_user_id
+  AND s.direction IN ('right', 'super')
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes mine
+    WHERE mine.swiper_id = current_user_id AND mine.swiped_id = u.id
+  )
+  AND NOT is_blocked(current_user_id, u.id)
+  AND is_account_active(u.id)
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(current_user_id))
+  AND current_user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  ORDER BY (s.direction = 'super') DESC, s.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Everyone who has super liked the user
+CREATE OR REPLACE FUNCTION get_super_liker_ids(current_user_id UUID)
+RETURNS TABLE (user_id UUID) AS $$
+  SELECT swiper_id FROM swipes
+  WHERE swiped_id = current_user_id
+  AND direction = 'super'
+  -- Only for yourself
+  AND current_user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Discovery puts people who super liked the user at the front of the pool
+CREATE OR REPLACE FUNCTION get_discovery_candidates(current_user_id UUID, pool_size INT DEFAULT 100)
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u, users me,
+  LATERAL (SELECT COALESCE(me.settings->'discoveryFilters', '{}'::jsonb) AS f) filters
+  WHERE me.id = current_user_id
+  AND me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND u.profile_complete = TRUE
+  AND accepts_gender(me.gender_preference, u.gender)
+  AND accepts_gender(u.gender_preference, me.gender)
+  AND is_account_active(u.id)
+  AND NOT is_blocked(me.id, u.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes s
+    WHERE s.swiper_id = me.id AND s.swiped_id = u.id
+  )
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(me.id))
+  -- Saved filters
+  AND (f->>'classYearMin' IS NULL OR class_year_number(u.class_year) >= (f->>'classYearMin')::int)
+  AND (f->>'classYearMax' IS NULL OR class_year_number(u.class_year) <= (f->>'classYearMax')::int)
+  AND (COALESCE(jsonb_array_length(f->'roles'), 0) = 0 OR f->'roles' ? u.role::text)
+  AND (COALESCE(jsonb_array_length(f->'vibes'), 0) = 0 OR f->'vibes' ? u.vibe::text)
+  AND (COALESCE(jsonb_array_length(f->'intentions'), 0) = 0 OR f->'intentions' ? u.intention::text)
+  -- Distance only applies once the user has picked a building
+  AND (
+    f->>'maxDistanceKm' IS NULL OR me.latitude IS NULL OR me.longitude IS NULL OR (
+      u.latitude IS NOT NULL AND u.longitude IS NOT NULL AND
+      distance_km(me.latitude, me.longitude, u.latitude, u.longitude) <= (f->>'maxDistanceKm')::float
+    )
+  )
+  ORDER BY
+    EXISTS (
+      SELECT 1 FROM swipes theirs
+      WHERE theirs.swiper_id = u.id AND theirs.swiped_id = me.id AND theirs.direction = 'super'
+    ) DESC,
+    u.created_at DESC
+  LIMIT pool_size;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Matches are only ever created here. ON CONFLICT keeps a repeated or concurrent swipe from failing,
+-- and security definer lets it insert even though matches has no INSERT policy.
+-- Unmatched and blocked pairs never match, however the swipes got there.
+CREATE OR REPLACE FUNCTION create_match_on_mutual_swipe()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM unmatches
+    WHERE (user_id = NEW.swiper_id AND unmatched_user_id = NEW.swiped_id)
+    OR (user_id = NEW.swiped_id AND unmatched_user_id = NEW.swiper_id)
+  ) OR is_blocked(NEW.swiper_id, NEW.swiped_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if there's a mutual like
+  IF EXISTS (
+    SELECT 1 FROM swipes 
+    WHERE swiper_id = NEW.swiped_id 
+    AND swiped_id = NEW.swiper_id 
+    AND direction IN ('right', 'super')
+  ) AND NEW.direction IN ('right', 'super') THEN
+    -- Lower ID first to maintain our check constraint
+    INSERT INTO matches (user_id_1, user_id_2)
+    VALUES (LEAST(NEW.swiper_id, NEW.swiped_id), GREATEST(NEW.swiper_id, NEW.swiped_id))
+    ON CONFLICT (user_id_1, user_id_2) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Records the caller's swipe on someone (by auth_id) and reports whether they're now matched, in one call.
+-- Swiping on the same person again changes nothing and returns the same answer.
+-- Suspended and banned users can't swipe, since security definer skips the swipes policies,
+-- and nobody can swipe on someone they've blocked or been blocked by.
+CREATE OR REPLACE FUNCTION record_swipe(target_auth_id TEXT, swipe_direction TEXT)
+RETURNS TABLE (matched BOOLEAN, match_id UUID) AS $$
+DECLARE
+  caller_id UUID;
+  target_id UUID;
+  pair_match_id UUID;
+BEGIN
+  SELECT id INTO caller_id FROM users WHERE auth_id = auth.uid()::text;
+  SELECT id INTO target_id FROM users WHERE auth_id = target_auth_id;
+
+  IF caller_id IS NULL OR target_id IS NULL OR caller_id = target_id THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF NOT is_account_active(caller_id) THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF is_blocked(caller_id, target_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Two people swiping on each other at the same moment take turns here,
+  -- so the second swipe always sees the first and the match gets made
+  PERFORM pg_advisory_xact_lock(hashtext(LEAST(caller_id, target_id)::text || GREATEST(caller_id, target_id)::text));
+
+  INSERT INTO swipes (swiper_id, swiped_id, direction)
+  VALUES (caller_id, target_id, swipe_direction)
+  ON CONFLICT (swiper_id, swiped_id) DO NOTHING;
+
+  SELECT id INTO pair_match_id FROM matches
+  WHERE user_id_1 = LEAST(caller_id, target_id)
+  AND user_id_2 = GREATEST(caller_id, target_id);
+
+  RETURN QUERY SELECT pair_match_id IS NOT NULL, pair_match_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The same rule for swipes inserted directly rather than through record_swipe
+CREATE POLICY swipes_active_swiper_policy ON swipes
+  AS RESTRICTIVE
+  FOR INSERT
+  WITH CHECK (is_account_active(swiper_id));
+
+-- Discovery pages: the deck asks for more while it still holds cards, so it passes the ones it has
+DROP FUNCTION IF EXISTS get_discovery_candidates(UUID, INT);
+CREATE OR REPLACE FUNCTION get_discovery_candidates(current_user_id UUID, pool_size INT DEFAULT 100, exclude_ids UUID[] DEFAULT '{}')
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u, users me,
+  LATERAL (SELECT COALESCE(me.settings->'discoveryFilters', '{}'::jsonb) AS f) filters
+  WHERE me.id = current_user_id
+  AND me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND u.id <> ALL(COALESCE(exclude_ids, '{}'))
+  AND u.profile_complete = TRUE
+  AND accepts_gender(me.gender_preference, u.gender)
+  AND accepts_gender(u.gender_preference, me.gender)
+  AND is_account_active(u.id)
+  AND NOT is_blocked(me.id, u.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes s
+    WHERE s.swiper_id = me.id AND s.swiped_id = u.id
+  )
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(me.id))
+  -- Saved filters
+  AND (f->>'classYearMin' IS NULL OR class_year_number(u.class_year) >= (f->>'classYearMin')::int)
+  AND (f->>'classYearMax' IS NULL OR class_year_number(u.class_year) <= (f->>'classYearMax')::int)
+  AND (COALESCE(jsonb_array_length(f->'roles'), 0) = 0 OR f->'roles' ? u.role::text)
+  AND (COALESCE(jsonb_array_length(f->'vibes'), 0) = 0 OR f->'vibes' ? u.vibe::text)
+  AND (COALESCE(jsonb_array_length(f->'intentions'), 0) = 0 OR f->'intentions' ? u.intention::text)
+  -- Distance only applies once the user has picked a building
+  AND (
+    f->>'maxDistanceKm' IS NULL OR me.latitude IS NULL OR me.longitude IS NULL OR (
+      u.latitude IS NOT NULL AND u.longitude IS NOT NULL AND
+      distance_km(me.latitude, me.longitude, u.latitude, u.longitude) <= (f->>'maxDistanceKm')::float
+    )
+  )
+  ORDER BY
+    EXISTS (
+      SELECT 1 FROM swipes theirs
+      WHERE theirs.swiper_id = u.id AND theirs.swiped_id = me.id AND theirs.direction = 'super'
+    ) DESC,
+    u.created_at DESC
+  LIMIT pool_size;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Hot zone details: where the zone is and when its events happen
+ALTER TABLE hot_zones ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE hot_zones ADD COLUMN IF NOT EXISTS latitude FLOAT;
+ALTER TABLE hot_zones ADD COLUMN IF NOT EXISTS longitude FLOAT;
+
+ALTER TABLE hot_zone_events ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE hot_zone_events ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE hot_zone_events ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE;
+
+-- Live active counts on the hot zone pages
+ALTER PUBLICATION supabase_realtime ADD TABLE hot_zones;
+
+-- The user's matches who are around a hot zone right now: based within 500m of it and active in the last two hours.
+-- Security definer so locations are only ever revealed for matches.
+CREATE OR REPLACE FUNCTION get_hot_zone_matches(target_zone_id UUID)
+RETURNS TABLE (match_id UUID, auth_id TEXT, name TEXT, photo_url TEXT, last_active_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT m.id, u.auth_id, u.name, u.photo_urls[1], u.last_active_at
+  FROM users me
+  JOIN matches m ON me.id IN (m.user_id_1, m.user_id_2)
+  JOIN users u ON u.id = CASE WHEN m.user_id_1 = me.id THEN m.user_id_2 ELSE m.user_id_1 END
+  JOIN hot_zones z ON z.id = target_zone_id
+  WHERE me.auth_id = auth.uid()::text
+  AND z.latitude IS NOT NULL AND z.longitude IS NOT NULL
+  AND u.latitude IS NOT NULL AND u.longitude IS NOT NULL
+  AND distance_km(z.latitude, z.longitude, u.latitude, u.longitude) <= 0.5
+  AND u.last_active_at >= NOW() - INTERVAL '2 hours'
+  AND NOT is_blocked(me.id, u.id)
+  ORDER BY u.last_active_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Hot zone check-ins: people opt in to share that they're at a zone, either by checking in or with a geofence.
+-- A check-in lapses after 45 minutes unless refreshed, and each zone's active_users is the count of live check-ins.
+ALTER TABLE hot_zones ADD COLUMN IF NOT EXISTS radius_m INTEGER DEFAULT 150;
+ALTER TABLE hot_zones ADD COLUMN IF NOT EXISTS occupancy_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE zone_checkins (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- One zone at a time: checking in somewhere else moves the check-in
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  hot_zone_id UUID REFERENCES hot_zones(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'geofence')),
+  checked_in_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX zone_checkins_zone_idx ON zone_checkins(hot_zone_id, expires_at);
+
+ALTER TABLE zone_checkins ENABLE ROW LEVEL SECURITY;
+
+-- People only see their own check-in; everyone else just sees the counts.
+-- Writes go through check_in_to_zone / check_out_of_zone.
+CREATE POLICY zone_checkins_select_policy ON zone_checkins
+  FOR SELECT USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+-- Recount a zone's live check-ins
+CREATE OR REPLACE FUNCTION refresh_hot_zone_occupancy(target_zone_id UUID)
+RETURNS VOID AS $$
+  UPDATE hot_zones
+  SET active_users = (
+        SELECT COUNT(*) FROM zone_checkins
+        WHERE hot_zone_id = target_zone_id AND expires_at > NOW()
+      ),
+      occupancy_updated_at = NOW()
+  WHERE id = target_zone_id;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION refresh_occupancy_on_checkin_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_hot_zone_occupancy(OLD.hot_zone_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.hot_zone_id <> OLD.hot_zone_id) THEN
+    PERFORM refresh_hot_zone_occupancy(NEW.hot_zone_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER refresh_occupancy_on_checkin_change
+AFTER INSERT OR UPDATE OR DELETE ON zone_checkins
+FOR EACH ROW
+EXECUTE FUNCTION refresh_occupancy_on_checkin_change();
+
+-- Check in to a zone, or refresh an existing check-in.
+-- Geofence check-ins must come with a position inside the zone's radius; the position itself isn't stored.
+CREATE OR REPLACE FUNCTION check_in_to_zone(
+  target_zone_id UUID,
+  checkin_source TEXT DEFAULT 'manual',
+  current_latitude FLOAT DEFAULT NULL,
+  current_longitude FLOAT DEFAULT NULL
+)
+RETURNS zone_checkins AS $$
+DECLARE
+  me UUID;
+  zone hot_zones;
+  result zone_checkins;
+BEGIN
+  SELECT id INTO me FROM users WHERE auth_id = auth.uid()::text;
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT * INTO zone FROM hot_zones WHERE id = target_zone_id;
+  IF zone.id IS NULL THEN
+    RAISE EXCEPTION 'Hot zone not found';
+  END IF;
+
+  IF checkin_source = 'geofence' AND (
+    current_latitude IS NULL OR current_longitude IS NULL
+    OR zone.latitude IS NULL OR zone.longitude IS NULL
+    OR distance_km(zone.latitude, zone.longitude, current_latitude, current_longitude) * 1000 > COALESCE(zone.radius_m, 150)
+  ) THEN
+    RAISE EXCEPTION 'Not inside this hot zone';
+  END IF;
+
+  INSERT INTO zone_checkins (user_id, hot_zone_id, source, checked_in_at, expires_at)
+  VALUES (me, target_zone_id, checkin_source, NOW(), NOW() + INTERVAL '45 minutes')
+  ON CONFLICT (user_id) DO UPDATE
+  SET hot_zone_id = EXCLUDED.hot_zone_id,
+      source = EXCLUDED.source,
+      -- Refreshing the same zone keeps the original check-in time
+      checked_in_at = CASE
+        WHEN zone_checkins.hot_zone_id = EXCLUDED.hot_zone_id AND zone_checkins.expires_at > NOW()
+        THEN zone_checkins.checked_in_at
+        ELSE EXCLUDED.checked_in_at
+      END,
+      expires_at = EXCLUDED.expires_at
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION check_out_of_zone()
+RETURNS VOID AS $$
+  DELETE FROM zone_checkins
+  WHERE user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text);
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Clear out lapsed check-ins so the counts decay without anyone checking out
+CREATE OR REPLACE FUNCTION expire_zone_checkins()
+RETURNS VOID AS $$
+  DELETE FROM zone_checkins WHERE expires_at <= NOW();
+$$ LANGUAGE sql SECURITY DEFINER;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule('expire-zone-checkins', '* * * * *', 'SELECT expire_zone_checkins()');
+
+-- Matches around a hot zone are now the ones checked in there
+CREATE OR REPLACE FUNCTION get_hot_zone_matches(target_zone_id UUID)
+RETURNS TABLE (match_id UUID, auth_id TEXT, name TEXT, photo_url TEXT, last_active_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT m.id, u.auth_id, u.name, u.photo_urls[1], c.checked_in_at
+  FROM users me
+  JOIN matches m ON me.id IN (m.user_id_1, m.user_id_2)
+  JOIN users u ON u.id = CASE WHEN m.user_id_1 = me.id THEN m.user_id_2 ELSE m.user_id_1 END
+  JOIN zone_checkins c ON c.user_id = u.id
+  WHERE me.auth_id = auth.uid()::text
+  AND c.hot_zone_id = target_zone_id
+  AND c.expires_at > NOW()
+  AND NOT is_blocked(me.id, u.id)
+  ORDER BY c.checked_in_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Hot zone event details for the schedule: what kind of event it is and which class is hosting
+CREATE TYPE hot_zone_event_category AS ENUM ('prade', 'tent_party', 'lecture', 'brunch', 'other');
+
+ALTER TABLE hot_zone_events ADD COLUMN IF NOT EXISTS category hot_zone_event_category DEFAULT 'other';
+ALTER TABLE hot_zone_events ADD COLUMN IF NOT EXISTS host_class_year TEXT;
+
+CREATE INDEX hot_zone_events_starts_at_idx ON hot_zone_events(starts_at);
+
+-- "I'm going" RSVPs for hot zone events
+CREATE TABLE event_rsvps (
+  event_id UUID REFERENCES hot_zone_events(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (event_id, user_id)
+);
+
+CREATE INDEX event_rsvps_user_idx ON event_rsvps(user_id);
+
+ALTER TABLE event_rsvps ENABLE ROW LEVEL SECURITY;
+
+-- People manage their own RSVPs; who else is going is only shared for matches, via get_event_rsvp_matches
+CREATE POLICY event_rsvps_select_policy ON event_rsvps
+  FOR SELECT USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+CREATE POLICY event_rsvps_insert_policy ON event_rsvps
+  FOR INSERT WITH CHECK (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+CREATE POLICY event_rsvps_delete_policy ON event_rsvps
+  FOR DELETE USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+-- The caller's matches who RSVP'd to any of the given events
+CREATE OR REPLACE FUNCTION get_event_rsvp_matches(target_event_ids UUID[])
+RETURNS TABLE (event_id UUID, match_id UUID, auth_id TEXT, name TEXT, photo_url TEXT) AS $$
+  SELECT r.event_id, m.id, u.auth_id, u.name, u.photo_urls[1]
+  FROM users me
+  JOIN matches m ON me.id IN (m.user_id_1, m.user_id_2)
+  JOIN users u ON u.id = CASE WHEN m.user_id_1 = me.id THEN m.user_id_2 ELSE m.user_id_1 END
+  JOIN event_rsvps r ON r.user_id = u.id
+  WHERE me.auth_id = auth.uid()::text
+  AND r.event_id = ANY(target_event_ids)
+  AND NOT is_blocked(me.id, u.id)
+  ORDER BY r.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Exact locations live in their own table that only the owner can read; everyone else gets coarse
+-- distance buckets from get_distance_buckets, and nothing at all when either side has location turned off
+CREATE TABLE user_locations (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  latitude FLOAT NOT NULL,
+  longitude FLOAT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO user_locations (user_id, latitude, longitude)
+SELECT id, latitude, longitude FROM users
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE users DROP COLUMN IF EXISTS latitude;
+ALTER TABLE users DROP COLUMN IF EXISTS longitude;
+
+ALTER TABLE user_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_locations_select_policy ON user_locations
+  FOR SELECT USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+CREATE POLICY user_locations_insert_policy ON user_locations
+  FOR INSERT WITH CHECK (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+CREATE POLICY user_locations_update_policy ON user_locations
+  FOR UPDATE USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+CREATE POLICY user_locations_delete_policy ON user_locations
+  FOR DELETE USING (
+    user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()::text)
+  );
+
+-- Location is on unless the user turned settings.locationEnabled off
+CREATE OR REPLACE FUNCTION shares_location(user_settings JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE((user_settings->>'locationEnabled')::boolean, TRUE);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Discovery reads coordinates from user_locations now, and people who hide their location
+-- can't be placed inside a distance filter
+CREATE OR REPLACE FUNCTION get_discovery_candidates(current_user_id UUID, pool_size INT DEFAULT 100, exclude_ids UUID[] DEFAULT '{}')
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u
+  JOIN users me ON me.id = current_user_id
+  LEFT JOIN user_locations my_loc ON my_loc.user_id = me.id
+  LEFT JOIN user_locations their_loc ON their_loc.user_id = u.id AND shares_location(u.settings),
+  LATERAL (SELECT COALESCE(me.settings->'discoveryFilters', '{}'::jsonb) AS f) filters
+  WHERE me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND u.id <> ALL(COALESCE(exclude_ids, '{}'))
+  AND u.profile_complete = TRUE
+  AND accepts_gender(me.gender_preference, u.gender)
+  AND accepts_gender(u.gender_preference, me.gender)
+  AND is_account_active(u.id)
+  AND NOT is_blocked(me.id, u.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes s
+    WHERE s.swiper_id = me.id AND s.swiped_id = u.id
+  )
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(me.id))
+  -- Saved filters
+  AND (f->>'classYearMin' IS NULL OR class_year_number(u.class_year) >= (f->>'classYearMin')::int)
+  AND (f->>'classYearMax' IS NULL OR class_year_number(u.class_year) <= (f->>'classYearMax')::int)
+  AND (COALESCE(jsonb_array_length(f->'roles'), 0) = 0 OR f->'roles' ? u.role::text)
+  AND (COALESCE(jsonb_array_length(f->'vibes'), 0) = 0 OR f->'vibes' ? u.vibe::text)
+  AND (COALESCE(jsonb_array_length(f->'intentions'), 0) = 0 OR f->'intentions' ? u.intention::text)
+  -- Distance only applies once the user has picked a building
+  AND (
+    f->>'maxDistanceKm' IS NULL OR my_loc.user_id IS NULL OR (
+      their_loc.user_id IS NOT NULL AND
+      distance_km(my_loc.latitude, my_loc.longitude, their_loc.latitude, their_loc.longitude) <= (f->>'maxDistanceKm')::float
+    )
+  )
+  ORDER BY
+    EXISTS (
+      SELECT 1 FROM swipes theirs
+      WHERE theirs.swiper_id = u.id AND theirs.swiped_id = me.id AND theirs.direction = 'super'
+    ) DESC,
+    u.created_at DESC
+  LIMIT pool_size;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- How far the caller is from each of the given people, as a coarse bucket rather than a distance.
+-- People without a location, or where either side has location turned off, are left out.
+CREATE OR REPLACE FUNCTION get_distance_buckets(target_user_ids UUID[])
+RETURNS TABLE (user_id UUID, bucket TEXT) AS $$
+  SELECT u.id,
+    CASE
+      WHEN me.building IS NOT NULL AND me.building = u.building THEN 'same_building'
+      WHEN d.km < 0.2 THEN 'under_200m'
+      WHEN d.km < 0.5 THEN 'under_500m'
+      WHEN d.km < 1 THEN 'under_1km'
+      WHEN d.km < 2 THEN 'under_2km'
+      ELSE 'far'
+    END
+  FROM users me
+  JOIN user_locations my_loc ON my_loc.user_id = me.id
+  JOIN users u ON u.id = ANY(target_user_ids)
+  JOIN user_locations their_loc ON their_loc.user_id = u.id,
+  LATERAL (SELECT distance_km(my_loc.latitude, my_loc.longitude, their_loc.latitude, their_loc.longitude) AS km) d
+  WHERE me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND shares_location(me.settings)
+  AND shares_location(u.settings)
+  AND NOT is_blocked(me.id, u.id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Pre-rank the discovery pool on the server with the strongest signals from the client's ranking
+-- (super likes, shared interests and clubs, class year, vibe, intention), so the bounded pool the
+-- client re-ranks holds the best fits rather than just the newest sign-ups
+CREATE OR REPLACE FUNCTION discovery_relevance(me users, them users)
+RETURNS INT AS $$
+  SELECT
+    3 * LEAST((
+      SELECT COUNT(*) FROM user_interests mine
+      JOIN user_interests theirs ON theirs.interest_id = mine.interest_id
+      WHERE mine.user_id = me.id AND theirs.user_id = them.id
+    ), 5)::int
+    + 4 * LEAST((
+      SELECT COUNT(*) FROM user_clubs mine
+      JOIN user_clubs theirs ON theirs.club_id = mine.club_id
+      WHERE mine.user_id = me.id AND theirs.user_id = them.id
+    ), 3)::int
+    + CASE abs(class_year_number(me.class_year) - class_year_number(them.class_year))
+        WHEN 0 THEN 6 WHEN 1 THEN 4 WHEN 2 THEN 2 WHEN 3 THEN 2 WHEN 4 THEN 1 WHEN 5 THEN 1 ELSE 0
+      END
+    + CASE WHEN me.vibe IS NOT NULL AND me.vibe = them.vibe THEN 4 ELSE 0 END
+    + CASE
+        WHEN me.intention IS NULL OR them.intention IS NULL THEN 0
+        WHEN me.intention = them.intention THEN 5
+        ELSE -3
+      END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_discovery_candidates(current_user_id UUID, pool_size INT DEFAULT 100, exclude_ids UUID[] DEFAULT '{}')
+RETURNS SETOF users AS $$
+  SELECT u.* FROM users u
+  JOIN users me ON me.id = current_user_id
+  LEFT JOIN user_locations my_loc ON my_loc.user_id = me.id
+  LEFT JOIN user_locations their_loc ON their_loc.user_id = u.id AND shares_location(u.settings),
+  LATERAL (SELECT COALESCE(me.settings->'discoveryFilters', '{}'::jsonb) AS f) filters
+  WHERE me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND u.id <> ALL(COALESCE(exclude_ids, '{}'))
+  AND u.profile_complete = TRUE
+  AND accepts_gender(me.gender_preference, u.gender)
+  AND accepts_gender(u.gender_preference, me.gender)
+  AND is_account_active(u.id)
+  AND NOT is_blocked(me.id, u.id)
+  AND NOT EXISTS (
+    SELECT 1 FROM swipes s
+    WHERE s.swiper_id = me.id AND s.swiped_id = u.id
+  )
+  AND u.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(me.id))
+  -- Saved filters
+  AND (f->>'classYearMin' IS NULL OR class_year_number(u.class_year) >= (f->>'classYearMin')::int)
+  AND (f->>'classYearMax' IS NULL OR class_year_number(u.class_year) <= (f->>'classYearMax')::int)
+  AND (COALESCE(jsonb_array_length(f->'roles'), 0) = 0 OR f->'roles' ? u.role::text)
+  AND (COALESCE(jsonb_array_length(f->'vibes'), 0) = 0 OR f->'vibes' ? u.vibe::text)
+  AND (COALESCE(jsonb_array_length(f->'intentions'), 0) = 0 OR f->'intentions' ? u.intention::text)
+  -- Distance only applies once the user has picked a building
+  AND (
+    f->>'maxDistanceKm' IS NULL OR my_loc.user_id IS NULL OR (
+      their_loc.user_id IS NOT NULL AND
+      distance_km(my_loc.latitude, my_loc.longitude, their_loc.latitude, their_loc.longitude) <= (f->>'maxDistanceKm')::float
+    )
+  )
+  ORDER BY
+    EXISTS (
+      SELECT 1 FROM swipes theirs
+      WHERE theirs.swiper_id = u.id AND theirs.swiped_id = me.id AND theirs.direction = 'super'
+    ) DESC,
+    discovery_relevance(me, u) DESC,
+    u.created_at DESC
+  LIMIT LEAST(pool_size, 200);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Where someone lives is private too: the building moves off the public profile into user_locations,
+-- and coordinates are only ever copied from campus_buildings by set_my_location, never sent by the client
+ALTER TABLE user_locations ADD COLUMN IF NOT EXISTS building_id UUID REFERENCES campus_buildings(id) ON DELETE CASCADE;
+
+INSERT INTO user_locations (user_id, building_id, latitude, longitude)
+SELECT u.id, b.id, b.latitude, b.longitude FROM users u
+JOIN campus_buildings b ON b.name = u.building
+ON CONFLICT (user_id) DO UPDATE
+SET building_id = EXCLUDED.building_id, latitude = EXCLUDED.latitude, longitude = EXCLUDED.longitude;
+
+-- Anything left was written by the client without a building to vouch for it
+DELETE FROM user_locations WHERE building_id IS NULL;
+ALTER TABLE user_locations ALTER COLUMN building_id SET NOT NULL;
+
+ALTER TABLE users DROP COLUMN IF EXISTS building;
+ALTER TABLE users DROP COLUMN IF EXISTS location;
+
+-- Deleting is out too, since deleting and re-adding would get around the limit in set_my_location;
+-- settings.locationEnabled is how someone stops sharing
+DROP POLICY IF EXISTS user_locations_insert_policy ON user_locations;
+DROP POLICY IF EXISTS user_locations_update_policy ON user_locations;
+DROP POLICY IF EXISTS user_locations_delete_policy ON user_locations;
+
+-- Sets the caller's location to one of the campus buildings. Changing buildings is limited to once an hour
+-- so nobody can hop between buildings to narrow down where someone else is from their distance buckets.
+-- Security definer because user_locations has no INSERT or UPDATE policy.
+CREATE OR REPLACE FUNCTION set_my_location(target_building_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  caller_id UUID;
+  building campus_buildings%ROWTYPE;
+  current_location user_locations%ROWTYPE;
+BEGIN
+  SELECT id INTO caller_id FROM users WHERE auth_id = auth.uid()::text;
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  SELECT * INTO building FROM campus_buildings WHERE id = target_building_id;
+  IF building.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown building';
+  END IF;
+
+  SELECT * INTO current_location FROM user_locations WHERE user_id = caller_id;
+  IF current_location.building_id = building.id THEN
+    RETURN;
+  END IF;
+  IF current_location.updated_at > NOW() - INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'You can only change your building once an hour';
+  END IF;
+
+  INSERT INTO user_locations (user_id, building_id, latitude, longitude, updated_at)
+  VALUES (caller_id, building.id, building.latitude, building.longitude, NOW())
+  ON CONFLICT (user_id) DO UPDATE
+  SET building_id = EXCLUDED.building_id,
+    latitude = EXCLUDED.latitude,
+    longitude = EXCLUDED.longitude,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- True if the caller could come across this person anyway: a match, or someone who could be in their deck.
+-- Anyone else gets no distance, so ids can't be fed in wholesale.
+CREATE OR REPLACE FUNCTION can_see_distance_to(me users, them users)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM matches
+    WHERE user_id_1 = LEAST(me.id, them.id)
+    AND user_id_2 = GREATEST(me.id, them.id)
+  ) OR (
+    them.profile_complete = TRUE
+    AND accepts_gender(me.gender_preference, them.gender)
+    AND accepts_gender(them.gender_preference, me.gender)
+    AND is_account_active(them.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM swipes s
+      WHERE s.swiper_id = me.id AND s.swiped_id = them.id
+    )
+    AND them.id NOT IN (SELECT user_id FROM get_unmatched_user_ids(me.id))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Buckets start at under 200 m, so sharing a building looks the same as living next door
+CREATE OR REPLACE FUNCTION get_distance_buckets(target_user_ids UUID[])
+RETURNS TABLE (user_id UUID, bucket TEXT) AS $$
+  SELECT u.id,
+    CASE
+      WHEN d.km < 0.2 THEN 'under_200m'
+      WHEN d.km < 0.5 THEN 'under_500m'
+      WHEN d.km < 1 THEN 'under_1km'
+      WHEN d.km < 2 THEN 'under_2km'
+      ELSE 'far'
+    END
+  FROM users me
+  JOIN user_locations my_loc ON my_loc.user_id = me.id
+  JOIN users u ON u.id = ANY(target_user_ids)
+  JOIN user_locations their_loc ON their_loc.user_id = u.id,
+  LATERAL (SELECT distance_km(my_loc.latitude, my_loc.longitude, their_loc.latitude, their_loc.longitude) AS km) d
+  WHERE me.auth_id = auth.uid()::text
+  AND u.id <> me.id
+  AND shares_location(me.settings)
+  AND shares_location(u.settings)
+  AND NOT is_blocked(me.id, u.id)
+  AND can_see_distance_to(me, u);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
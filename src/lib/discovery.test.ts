@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { rankCandidates, scoreCandidate } from '@/lib/discovery';
+import { DistanceBucket, UserIntention, UserVibe } from '@/types/database';
+
+const NOW = new Date('2026-05-01T12:00:00Z').getTime();
+const HOUR = 60 * 60 * 1000;
+
+interface FixtureOptions {
+  classYear?: string;
+  vibe?: UserVibe;
+  intention?: UserIntention;
+  lastActiveHoursAgo?: number;
+  interests?: string[];
+  clubs?: string[];
+  superLikedMe?: boolean;
+  distanceBucket?: DistanceBucket | null;
+}
+
+// Interests and clubs in the same join-row shape Supabase returns
+const fixtureUser = (id: string, options: FixtureOptions = {}) => ({
+  id,
+  class_year: options.classYear,
+  vibe: options.vibe,
+  intention: options.intention,
+  last_active_at: options.lastActiveHoursAgo != null
+    ? new Date(NOW - options.lastActiveHoursAgo * HOUR).toISOString()
+    : undefined,
+  interests: (options.interests || []).map(name => ({ name: { name } })),
+  clubs: (options.clubs || []).map(name => ({ name: { name } })),
+  superLikedMe: options.superLikedMe,
+  distanceBucket: options.distanceBucket
+}) as unknown as Parameters<typeof scoreCandidate>[0];
+
+const me = fixtureUser('me', {
+  classYear: 'Class of 2026',
+  vibe: 'Down to Roam',
+  intention: 'serious',
+  interests: ['Hiking', 'Jazz', 'Chess'],
+  clubs: ['Triangle Club', 'Ivy Club']
+});
+
+describe('scoreCandidate', () => {
+  it('scores a candidate with nothing in common as zero with no reasons', () => {
+    expect(scoreCandidate(me, fixtureUser('stranger'), NOW)).toEqual({ score: 0, reasons: [] });
+  });
+
+  it('adds up every signal', () => {
+    const candidate = fixtureUser('close', {
+      classYear: 'Class of 2026',
+      vibe: 'Down to Roam',
+      intention: 'serious',
+      interests: ['Hiking', 'Jazz'],
+      clubs: ['Triangle Club'],
+      distanceBucket: 'under_500m',
+      lastActiveHoursAgo: 0.5
+    });
+
+    // interests 2×3, clubs 1×4, same year 6, vibe 4, intention 5, proximity 5, active now 4
+    expect(scoreCandidate(me, candidate, NOW).score).toBe(34);
+  });
+
+  it('penalises a different intention', () => {
+    const candidate = fixtureUser('casual', { intention: 'casual' });
+
+    expect(scoreCandidate(me, candidate, NOW)).toEqual({ score: -3, reasons: [] });
+  });
+
+  it('lists the three strongest reasons, strongest first', () => {
+    const candidate = fixtureUser('close', {
+      classYear: 'Class of 2029',
+      vibe: 'Down to Roam',
+      intention: 'serious',
+      interests: ['Hiking', 'Jazz', 'Chess'],
+      lastActiveHoursAgo: 3
+    });
+
+    expect(scoreCandidate(me, candidate, NOW).reasons).toEqual([
+      'You both like Hiking, Jazz and 1 more',
+      'Also looking for something serious',
+      'Same vibe: Down to Roam'
+    ]);
+  });
+
+  it('words shared clubs, class year and activity', () => {
+    const candidate = fixtureUser('clubmate', {
+      classYear: 'Class of 2026',
+      clubs: ['Triangle Club', 'Ivy Club'],
+      lastActiveHoursAgo: 5
+    });
+
+    expect(scoreCandidate(me, candidate, NOW).reasons).toEqual([
+      'Also in Triangle Club and Ivy Club',
+      'Class of 2026, same as you',
+      'Active today'
+    ]);
+  });
+
+  it('puts a super like ahead of every other reason', () => {
+    const candidate = fixtureUser('fan', {
+      superLikedMe: true,
+      interests: ['Hiking', 'Jazz', 'Chess']
+    });
+
+    const { score, reasons } = scoreCandidate(me, candidate, NOW);
+    expect(score).toBe(29);
+    expect(reasons[0]).toBe('Super liked you');
+  });
+
+  it('ranks closer distance buckets higher without revealing more than the bucket', () => {
+    const score = (distanceBucket: DistanceBucket | null) =>
+      scoreCandidate(me, fixtureUser('someone', { distanceBucket }), NOW);
+
+    expect(score('under_200m').reasons).toEqual(['Right around the corner']);
+    expect(score('under_2km').reasons).toEqual(['Nearby on campus']);
+    expect(score('far')).toEqual({ score: 1, reasons: [] });
+    expect(score(null)).toEqual({ score: 0, reasons: [] });
+  });
+});
+
+describe('rankCandidates', () => {
+  it('orders candidates best-first', () => {
+    const candidates = [
+      fixtureUser('stranger'),
+      fixtureUser('mismatch', { intention: 'casual' }),
+      fixtureUser('fan', { superLikedMe: true }),
+      fixtureUser('classmate', { classYear: 'Class of 2026', interests: ['Jazz'] })
+    ];
+
+    expect(rankCandidates(me, candidates, NOW).map(candidate => candidate.id))
+      .toEqual(['fan', 'classmate', 'stranger', 'mismatch']);
+  });
+
+  it('keeps the original order for ties', () => {
+    const candidates = ['newest', 'middle', 'oldest'].map(id => fixtureUser(id, { interests: ['Chess'] }));
+
+    expect(rankCandidates(me, candidates, NOW).map(candidate => candidate.id))
+      .toEqual(['newest', 'middle', 'oldest']);
+  });
+
+  it('attaches the score and reasons to each candidate', () => {
+    const [ranked] = rankCandidates(me, [fixtureUser('jazz', { interests: ['Jazz'] })], NOW);
+
+    expect(ranked).toMatchObject({ id: 'jazz', score: 3, reasons: ['You both like Jazz'] });
+    expect(ranked).not.toHaveProperty('index');
+  });
+});
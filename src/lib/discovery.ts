@@ -0,0 +1,186 @@
+import { DiscoveryFilters, DistanceBucket, UserWithRelations } from '@/types/database';
+
+// Ranking for the discovery feed. Everything here is pure so it can run on any candidate pool.
+
+type DiscoveryProfile = Pick<
+  UserWithRelations,
+  'id' | 'class_year' | 'vibe' | 'intention' | 'last_active_at' | 'interests' | 'clubs'
+> & { superLikedMe?: boolean; distanceBucket?: DistanceBucket | null };
+
+export interface DiscoveryScore {
+  score: number;
+  // Human-readable "why you're seeing this", strongest first
+  reasons: string[];
+}
+
+// One scored signal; weight decides both its share of the score and its place among the reasons
+interface Signal {
+  weight: number;
+  reason?: string;
+}
+
+const MAX_REASONS = 3;
+
+// Interests/clubs come back from Supabase as { name: { name } } join rows
+const getNames = (items?: { name: { name: string } | null }[]): string[] =>
+  (items || []).map(item => item?.name?.name).filter((name): name is string => !!name);
+
+const listNames = (names: string[]) =>
+  names.length <= 2 ? names.join(' and ') : `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
+
+const parseYear = (classYear?: string) => {
+  const match = classYear?.match(/\d{4}|\d{2}$/);
+  if (!match) return null;
+  const year = Number(match[0]);
+  return year < 100 ? 2000 + year : year;
+};
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const sharedInterests = (me: DiscoveryProfile, them: DiscoveryProfile): Signal => {
+  const mine = new Set(getNames(me.interests));
+  const shared = getNames(them.interests).filter(name => mine.has(name));
+  if (shared.length === 0) return { weight: 0 };
+
+  return {
+    weight: Math.min(shared.length, 5) * 3,
+    reason: `You both like ${listNames(shared)}`
+  };
+};
+
+const sharedClubs = (me: DiscoveryProfile, them: DiscoveryProfile): Signal => {
+  const mine = new Set(getNames(me.clubs));
+  const shared = getNames(them.clubs).filter(name => mine.has(name));
+  if (shared.length === 0) return { weight: 0 };
+
+  return {
+    weight: Math.min(shared.length, 3) * 4,
+    reason: `Also in ${listNames(shared)}`
+  };
+};
+
+const classYearProximity = (me: DiscoveryProfile, them: DiscoveryProfile): Signal => {
+  const myYear = parseYear(me.class_year);
+  const theirYear = parseYear(them.class_year);
+  if (myYear === null || theirYear === null) return { weight: 0 };
+
+  const gap = Math.abs(myYear - theirYear);
+  if (gap === 0) return { weight: 6, reason: `Class of ${theirYear}, same as you` };
+  if (gap === 1) return { weight: 4, reason: `Class of ${theirYear}, a year apart` };
+  if (gap <= 3) return { weight: 2 };
+  if (gap <= 5) return { weight: 1 };
+  return { weight: 0 };
+};
+
+const compatibleVibe = (me: DiscoveryProfile, them: DiscoveryProfile): Signal => {
+  if (!me.vibe || me.vibe !== them.vibe) return { weight: 0 };
+  return { weight: 4, reason: `Same vibe: ${them.vibe}` };
+};
+
+const compatibleIntention = (me: DiscoveryProfile, them: DiscoveryProfile): Signal => {
+  if (!me.intention || !them.intention) return { weight: 0 };
+  if (me.intention !== them.intention) return { weight: -3 };
+
+  return {
+    weight: 5,
+    reason: them.intention === 'serious' ? 'Also looking for something serious' : 'Also keeping it casual'
+  };
+};
+
+// Works off the server's coarse distance bucket, which is missing when either side hides their location
+const proximity = (them: DiscoveryProfile): Signal => {
+  switch (them.distanceBucket) {
+    case 'under_200m':
+    case 'under_500m':
+      return { weight: 5, reason: 'Right around the corner' };
+    case 'under_1km':
+    case 'under_2km':
+      return { weight: 3, reason: 'Nearby on campus' };
+    case 'far':
+      return { weight: 1 };
+    default:
+      return { weight: 0 };
+  }
+};
+
+// Someone who super liked you goes to the front of the deck
+const superLike = (them: DiscoveryProfile): Signal =>
+  them.superLikedMe ? { weight: 20, reason: 'Super liked you' } : { weight: 0 };
+
+const recentActivity = (them: DiscoveryProfile, now: number): Signal => {
+  if (!them.last_active_at) return { weight: 0 };
+
+  const hours = (now - new Date(them.last_active_at).getTime()) / (60 * 60 * 1000);
+  if (hours < 1) return { weight: 4, reason: 'Active now' };
+  if (hours < 24) return { weight: 3, reason: 'Active today' };
+  if (hours < 24 * 7) return { weight: 1 };
+  return { weight: 0 };
+};
+
+/**
+ * Scores how good a match a candidate is for the current user, with the reasons behind it
+ */
+export const scoreCandidate = (
+  me: DiscoveryProfile,
+  candidate: DiscoveryProfile,
+  now: number = Date.now()
+): DiscoveryScore => {
+  const signals = [
+    superLike(candidate),
+    sharedInterests(me, candidate),
+    sharedClubs(me, candidate),
+    classYearProximity(me, candidate),
+    compatibleVibe(me, candidate),
+    compatibleIntention(me, candidate),
+    proximity(candidate),
+    recentActivity(candidate, now)
+  ];
+
+  const reasons = signals
+    .filter((signal): signal is Required<Signal> => !!signal.reason && signal.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, MAX_REASONS)
+    .map(signal => signal.reason);
+
+  return {
+    score: signals.reduce((total, signal) => total + signal.weight, 0),
+    reasons
+  };
+};
+
+/**
+ * Ranks candidates best-first. Ties keep their original (newest-first) order.
+ */
+export const rankCandidates = <T extends DiscoveryProfile>(
+  me: DiscoveryProfile,
+  candidates: T[],
+  now: number = Date.now()
+): (T & DiscoveryScore)[] =>
+  candidates
+    .map((candidate, index) => ({ ...candidate, ...scoreCandidate(me, candidate, now), index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ index: _index, ...ranked }) => ranked as unknown as T & DiscoveryScore);
+
+/**
+ * How many discovery filters are narrowing the deck, for the badge on the filter button
+ */
+export const countActiveFilters = (filters?: DiscoveryFilters | null) => {
+  if (!filters) return 0;
+
+  return [
+    filters.classYearMin != null || filters.classYearMax != null,
+    !!filters.roles?.length,
+    filters.maxDistanceKm != null,
+    !!filters.vibes?.length,
+    !!filters.intentions?.length
+  ].filter(Boolean).length;
+};
@@ -0,0 +1,9 @@
+import { DistanceBucket } from '@/types/database';
+
+export const DISTANCE_BUCKET_LABELS: Record<DistanceBucket, string> = {
+  under_200m: '< 200 m away',
+  under_500m: '< 500 m away',
+  under_1km: '< 1 km away',
+  under_2km: '< 2 km away',
+  far: '2+ km away',
+};
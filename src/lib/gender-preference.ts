@@ -0,0 +1,25 @@
+import { GenderPreference } from '@/types/database';
+
+export const GENDER_PREFERENCE_OPTIONS: { value: GenderPreference; label: string }[] = [
+  { value: 'male', label: 'Men' },
+  { value: 'female', label: 'Women' },
+  { value: 'non-binary', label: 'Non-binary people' },
+  { value: 'other', label: 'Other' },
+  { value: 'everyone', label: 'Everyone' },
+];
+
+/**
+ * Toggles one option of the "show me" multi-select.
+ * 'everyone' replaces any specific picks, picking a specific gender drops 'everyone',
+ * and clearing everything falls back to 'everyone' so the preference is never empty.
+ */
+export const toggleGenderPreference = (current: GenderPreference[], value: GenderPreference): GenderPreference[] => {
+  if (value === 'everyone') return ['everyone'];
+
+  const specific = current.filter(option => option !== 'everyone');
+  const next = specific.includes(value)
+    ? specific.filter(option => option !== value)
+    : [...specific, value];
+
+  return next.length > 0 ? next : ['everyone'];
+};
@@ -0,0 +1,53 @@
+import { format, isSameDay, isWithinInterval } from 'date-fns';
+import { HotZone, HotZoneEvent, HotZoneEventCategory } from '@/types/database';
+
+export const EVENT_CATEGORY_LABELS: Record<HotZoneEventCategory, string> = {
+  prade: 'P-rade',
+  tent_party: 'Tent party',
+  lecture: 'Lecture',
+  brunch: 'Brunch',
+  other: 'Event',
+};
+
+// An event on the cross-zone timeline, with the zone it's at
+export interface TimelineEvent extends HotZoneEvent {
+  zone: Pick<HotZone, 'id' | 'name'>;
+}
+
+export const formatEventTime = (event: HotZoneEvent) => {
+  if (!event.starts_at) return 'Time TBA';
+
+  const start = new Date(event.starts_at);
+  if (!event.ends_at) return format(start, 'EEE, MMM d · h:mm a');
+
+  const end = new Date(event.ends_at);
+  return isSameDay(start, end)
+    ? `${format(start, 'EEE, MMM d · h:mm a')} – ${format(end, 'h:mm a')}`
+    : `${format(start, 'EEE, MMM d · h:mm a')} – ${format(end, 'EEE, MMM d · h:mm a')}`;
+};
+
+export const isHappeningNow = (event: HotZoneEvent, now: Date = new Date()) =>
+  !!event.starts_at && !!event.ends_at &&
+  isWithinInterval(now, { start: new Date(event.starts_at), end: new Date(event.ends_at) });
+
+// Events without an end time are over once they've started
+export const hasEnded = (event: HotZoneEvent, now: Date = new Date()) => {
+  const endsAt = event.ends_at || event.starts_at;
+  return !!endsAt && new Date(endsAt) <= now;
+};
+
+/**
+ * Splits every zone's events into what's on right now and the next few coming up, both soonest first.
+ * Events without a start time can't be placed on the timeline and are left out.
+ */
+export const buildEventTimeline = (zones: HotZone[], now: Date = new Date(), upNextLimit: number = 5) => {
+  const events: TimelineEvent[] = zones
+    .flatMap(zone => (zone.events || []).map(event => ({ ...event, zone: { id: zone.id, name: zone.name } })))
+    .filter(event => !!event.starts_at)
+    .sort((a, b) => new Date(a.starts_at!).getTime() - new Date(b.starts_at!).getTime());
+
+  return {
+    happeningNow: events.filter(event => isHappeningNow(event, now)),
+    upNext: events.filter(event => new Date(event.starts_at!) > now).slice(0, upNextLimit),
+  };
+};
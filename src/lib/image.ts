@@ -0,0 +1,61 @@
+import { ALLOWED_IMAGE_TYPES, MAX_IMAGE_BYTES } from './supabase';
+
+/**
+ * Checks a picked file against the storage bucket limits.
+ * Returns an error message, or null if the file is fine.
+ */
+export const validateImageFile = (file: File): string | null => {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    return 'Only PNG, JPEG, GIF and WebP images are supported';
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return 'File size must be less than 5MB';
+  }
+  return null;
+};
+
+/**
+ * Downscales an image in the browser and re-encodes it as JPEG.
+ * GIFs are returned untouched so animations survive.
+ */
+export const compressImage = async (
+  file: File,
+  maxDimension: number = 1600,
+  quality: number = 0.82
+): Promise<File> => {
+  if (file.type === 'image/gif') return file;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+
+    // Keep the original if encoding failed or somehow made it bigger
+    if (!blob || (scale === 1 && blob.size >= file.size)) return file;
+
+    const name = file.name.replace(/\.[^.]+$/, '') + '.jpg';
+    return new File([blob], name, { type: 'image/jpeg' });
+  } catch (error) {
+    console.error('Error compressing image:', error);
+    return file;
+  }
+};
+
+/**
+ * Starts downloading images so they're in the browser cache before they're shown
+ */
+export const preloadImages = (urls: string[]) => {
+  urls.forEach(url => {
+    const image = new Image();
+    image.src = url;
+  });
+};
@@ -0,0 +1,48 @@
+import { InfiniteData, QueryClient } from '@tanstack/react-query';
+import { Message, MessagePage } from '@/types/database';
+
+// Chat history is cached as an infinite query: pages[0] holds the newest messages
+export type MessagesCache = InfiniteData<MessagePage>;
+
+export const messagesQueryKey = (matchId: string) => ['messages', matchId];
+
+/**
+ * Flattens cached pages into one oldest-first list
+ */
+export const flattenMessagePages = (data?: MessagesCache): Message[] => {
+  if (!data) return [];
+  return [...data.pages].reverse().flatMap(page => page.messages);
+};
+
+/**
+ * Appends a new message to the newest page, ignoring duplicates
+ */
+export const addMessageToCache = (queryClient: QueryClient, matchId: string, message: Message) => {
+  queryClient.setQueryData<MessagesCache>(messagesQueryKey(matchId), (current) => {
+    if (!current || current.pages.length === 0) return current;
+    if (current.pages.some(page => page.messages.some(m => m.id === message.id))) return current;
+
+    const [newest, ...older] = current.pages;
+    return {
+      ...current,
+      pages: [{ ...newest, messages: [...newest.messages, message] }, ...older],
+    };
+  });
+};
+
+/**
+ * Merges an updated message into whichever page holds it
+ */
+export const updateMessageInCache = (queryClient: QueryClient, matchId: string, message: Message) => {
+  queryClient.setQueryData<MessagesCache>(messagesQueryKey(matchId), (current) => {
+    if (!current) return current;
+
+    return {
+      ...current,
+      pages: current.pages.map(page => ({
+        ...page,
+        messages: page.messages.map(m => (m.id === message.id ? { ...m, ...message } : m)),
+      })),
+    };
+  });
+};
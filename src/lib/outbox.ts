@@ -0,0 +1,233 @@
+import { sendMessage } from './api';
+import { supabase } from './supabase';
+import { Message } from '@/types/database';
+
+// Messages waiting to be sent, persisted in IndexedDB so they survive reloads and dropped Wi-Fi.
+// Each message belongs to the account that queued it and is only ever sent with that account's session.
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxMessage {
+  // Idempotency key, stored as messages.client_id so retries never duplicate a message
+  client_id: string;
+  // auth id of the account that queued it
+  owner_id: string;
+  match_id: string;
+  message: string;
+  reply_to_id?: string | null;
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+}
+
+const DB_NAME = 'meunion-outbox';
+const DB_VERSION = 2;
+const STORE_NAME = 'messages';
+const MAX_ATTEMPTS = 3;
+
+type OutboxListener = (sent?: { item: OutboxMessage; message: Message }) => void;
+
+const listeners = new Set<OutboxListener>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushPromise: Promise<void> | null = null;
+// Set when a flush is asked for mid-run, since that run has already read its queue
+let flushRequested = false;
+// The signed-in account; only its messages are listed or sent
+let ownerId: string | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      // Version 1 queues weren't tied to an account, so there's no safe way to send them
+      if (event.oldVersion < 2 && db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'client_id' });
+      store.createIndex('match_id', 'match_id', { unique: false });
+      store.createIndex('owner_id', 'owner_id', { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Runs a single request against the outbox store and resolves with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+const notify = (sent?: { item: OutboxMessage; message: Message }) => {
+  listeners.forEach(listener => listener(sent));
+};
+
+/**
+ * Listens for outbox changes. `sent` is set when a queued message reached the server.
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Switches the outbox to the signed-in account (null when signed out)
+ */
+export const setOutboxOwner = (authId: string | null) => {
+  if (ownerId === authId) return;
+  ownerId = authId;
+  notify();
+};
+
+/**
+ * Gets the signed-in account's queued messages, optionally only for one match, oldest first
+ */
+export const getOutbox = async (matchId?: string): Promise<OutboxMessage[]> => {
+  const owner = ownerId;
+  if (!owner) return [];
+
+  try {
+    const items = await withStore<OutboxMessage[]>('readonly', store =>
+      store.index('owner_id').getAll(owner)
+    );
+    return items
+      .filter(item => !matchId || item.match_id === matchId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  } catch (error) {
+    console.error('Error reading outbox:', error);
+    return [];
+  }
+};
+
+/**
+ * Queues a message (optionally a reply) and immediately tries to send it
+ */
+export const queueMessage = async (
+  matchId: string,
+  content: string,
+  replyToId?: string | null
+): Promise<OutboxMessage> => {
+  if (!ownerId) throw new Error('No authenticated user');
+
+  const item: OutboxMessage = {
+    client_id: crypto.randomUUID(),
+    owner_id: ownerId,
+    match_id: matchId,
+    message: content,
+    reply_to_id: replyToId ?? null,
+    created_at: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+  };
+
+  await withStore('readwrite', store => store.put(item));
+  notify();
+  flushOutbox();
+
+  return item;
+};
+
+/**
+ * Puts a failed message back in the queue and retries it
+ */
+export const retryOutboxMessage = async (clientId: string): Promise<void> => {
+  const item = await withStore<OutboxMessage | undefined>('readonly', store => store.get(clientId));
+  if (!item || item.owner_id !== ownerId) return;
+
+  await withStore('readwrite', store => store.put({ ...item, status: 'pending', attempts: 0 }));
+  notify();
+  flushOutbox();
+};
+
+/**
+ * Drops a queued message without sending it
+ */
+export const removeFromOutbox = async (clientId: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(clientId));
+  notify();
+};
+
+/**
+ * Deletes every message an account had queued, e.g. when it signs out
+ */
+export const clearOutbox = async (authId: string): Promise<void> => {
+  try {
+    const keys = await withStore<IDBValidKey[]>('readonly', store => store.index('owner_id').getAllKeys(authId));
+    await Promise.all(keys.map(key => withStore('readwrite', store => store.delete(key))));
+    notify();
+  } catch (error) {
+    console.error('Error clearing outbox:', error);
+  }
+};
+
+const sendQueued = async () => {
+  const owner = ownerId;
+  if (!owner) return;
+
+  // Never send one account's messages with another account's session
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session?.user.id !== owner) return;
+
+  const pending = (await getOutbox()).filter(item => item.status === 'pending');
+
+  for (const item of pending) {
+    if (!navigator.onLine || ownerId !== owner) return;
+
+    try {
+      const message = await sendMessage(item.match_id, item.message, item.client_id, {
+        replyToId: item.reply_to_id
+      });
+      await withStore('readwrite', store => store.delete(item.client_id));
+      notify({ item, message });
+    } catch (error) {
+      // Offline failures stay pending until we reconnect; others give up after a few tries
+      if (!navigator.onLine) return;
+
+      const attempts = item.attempts + 1;
+      const status: OutboxStatus = attempts >= MAX_ATTEMPTS ? 'failed' : 'pending';
+      await withStore('readwrite', store => store.put({ ...item, attempts, status }));
+      notify();
+    }
+  }
+};
+
+/**
+ * Sends everything still pending in the outbox. Concurrent calls share one run,
+ * which goes round again if anything was queued while it was sending.
+ */
+export const flushOutbox = (): Promise<void> => {
+  if (flushPromise) {
+    flushRequested = true;
+    return flushPromise;
+  }
+
+  flushPromise = (async () => {
+    do {
+      flushRequested = false;
+      await sendQueued().catch(error => console.error('Error flushing outbox:', error));
+    } while (flushRequested);
+  })().finally(() => {
+    flushPromise = null;
+  });
+  return flushPromise;
+};
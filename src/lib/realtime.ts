@@ -0,0 +1,231 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { HotZone, Message } from '@/types/database';
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected';
+
+interface MessageSubscriptionHandlers {
+  onInsert: (message: Message) => void;
+  onUpdate?: (message: Message) => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+}
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+// Exponential backoff with a little jitter so a whole tent of phones
+// coming back online doesn't reconnect in lockstep
+const getRetryDelay = (attempt: number) => {
+  const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, attempt), MAX_RETRY_DELAY);
+  return delay + Math.floor(Math.random() * 500);
+};
+
+/**
+ * Subscribes to new and updated messages for a match.
+ * Reconnects with backoff whenever the channel errors out or the browser comes back online.
+ * Returns a function that tears the subscription down.
+ */
+export const subscribeToMatchMessages = (
+  matchId: string,
+  handlers: MessageSubscriptionHandlers
+): (() => void) => {
+  let channel: RealtimeChannel | null = null;
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  let attempt = 0;
+  let disposed = false;
+
+  const setStatus = (status: RealtimeStatus) => {
+    handlers.onStatusChange?.(status);
+  };
+
+  const scheduleReconnect = () => {
+    if (disposed || retryTimeout) return;
+
+    const delay = getRetryDelay(attempt);
+
+    retryTimeout = setTimeout(() => {
+      retryTimeout = null;
+      attempt++;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (disposed) return;
+
+    if (channel) {
+      // Forget it first so the CLOSED it reports while being removed is ignored
+      const previous = channel;
+      channel = null;
+      supabase.removeChannel(previous);
+    }
+
+    setStatus('connecting');
+
+    const current = supabase
+      .channel(`messages:${matchId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `match_id=eq.${matchId}` },
+        (payload) => handlers.onInsert(payload.new as Message)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `match_id=eq.${matchId}` },
+        (payload) => handlers.onUpdate?.(payload.new as Message)
+      );
+    channel = current;
+
+    current.subscribe((status, err) => {
+      // Removing a replaced channel reports CLOSED on it; only the live channel drives status and retries
+      if (disposed || channel !== current) return;
+
+      if (status === 'SUBSCRIBED') {
+        attempt = 0;
+        setStatus('connected');
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        if (err) {
+          console.error(`Realtime channel error for match ${matchId}:`, err);
+        }
+        setStatus('disconnected');
+        scheduleReconnect();
+      }
+    });
+  };
+
+  // Skip the remaining backoff as soon as the network is back
+  const handleOnline = () => {
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+      retryTimeout = null;
+    }
+    attempt = 0;
+    connect();
+  };
+
+  const handleOffline = () => {
+    setStatus('disconnected');
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  connect();
+
+  return () => {
+    disposed = true;
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+    }
+
+    if (channel) {
+      supabase.removeChannel(channel);
+      channel = null;
+    }
+  };
+};
+
+interface ConversationPresenceOptions {
+  // When false we still listen, but never track or broadcast our own activity
+  shareActivity: boolean;
+  onPresenceChange: (onlineUserIds: string[]) => void;
+  onTyping: (userId: string) => void;
+}
+
+export interface ConversationPresence {
+  sendTyping: () => void;
+  leave: () => void;
+}
+
+/**
+ * Joins the presence/broadcast channel for a conversation.
+ * Presence tells us who has the chat open; the 'typing' broadcast powers the typing indicator.
+ */
+export const joinConversationPresence = (
+  matchId: string,
+  userId: string,
+  options: ConversationPresenceOptions
+): ConversationPresence => {
+  const channel = supabase.channel(`presence:${matchId}`, {
+    config: {
+      presence: { key: userId },
+      broadcast: { self: false },
+    },
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      options.onPresenceChange(Object.keys(channel.presenceState()));
+    })
+    .on('broadcast', { event: 'typing' }, ({ payload }) => {
+      if (payload?.userId && payload.userId !== userId) {
+        options.onTyping(payload.userId);
+      }
+    })
+    .subscribe(async (status) => {
+      if (status === 'SUBSCRIBED' && options.shareActivity) {
+        await channel.track({ online_at: new Date().toISOString() });
+      }
+    });
+
+  return {
+    sendTyping: () => {
+      if (!options.shareActivity) return;
+      channel.send({ type: 'broadcast', event: 'typing', payload: { userId } });
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+/**
+ * Listens for changes to a hot zone, such as its active count.
+ * Returns a function that tears the subscription down.
+ */
+export const subscribeToHotZone = (
+  zoneId: string,
+  onUpdate: (zone: HotZone) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`hot-zone:${zoneId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'hot_zones', filter: `id=eq.${zoneId}` },
+      (payload) => onUpdate(payload.new as HotZone)
+    )
+    .subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' && err) {
+        console.error(`Realtime channel error for hot zone ${zoneId}:`, err);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Listens for occupancy changes across all hot zones.
+ * Returns a function that tears the subscription down.
+ */
+export const subscribeToHotZones = (onUpdate: (zone: HotZone) => void): (() => void) => {
+  const channel = supabase
+    .channel('hot-zones')
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'hot_zones' },
+      (payload) => onUpdate(payload.new as HotZone)
+    )
+    .subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR' && err) {
+        console.error('Realtime channel error for hot zones:', err);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
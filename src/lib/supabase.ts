@@ -27,6 +27,10 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+// Upload limits shared by every image bucket
+export const MAX_IMAGE_BYTES = 5242880; // 5MB
+export const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
 // Helper function to check if a bucket exists and create if needed
 // Improved with more robust error handling
 export const ensureBucketExists = async (bucketName: string): Promise<boolean> => {
@@ -62,8 +66,8 @@ export const ensureBucketExists = async (bucketName: string): Promise<boolean> =
     // Create bucket with public access
     const { data: createData, error: createError } = await supabase.storage.createBucket(bucketName, {
       public: true, 
-      fileSizeLimit: 5242880, // 5MB
-      allowedMimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+      fileSizeLimit: MAX_IMAGE_BYTES,
+      allowedMimeTypes: ALLOWED_IMAGE_TYPES
     });
     
     if (createError) {
@@ -1,46 +1,156 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import Logo from '../components/Logo';
-import { ArrowLeft, Send, InfoIcon, MapPin } from 'lucide-react';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { getUserById, getMessages, sendMessage, markMessagesAsRead } from '../lib/api';
+import { ArrowLeft, Send, InfoIcon, MapPin, Check, CheckCheck, Loader, Clock, AlertCircle, RotateCw, Trash2, ImagePlus, MoreHorizontal, Reply, Pencil, X, MoreVertical, UserX, Ban, Flag } from 'lucide-react';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getMatchPartner,
+  getMessages,
+  markMessagesAsRead,
+  sendMessage,
+  uploadMessageImage,
+  editMessage,
+  unsendMessage,
+  toggleReaction,
+  getDistanceBuckets,
+  MESSAGE_EDIT_WINDOW_MS
+} from '../lib/api';
 import { toast } from "sonner";
-import { UserWithRelations, Message } from '../types/database';
+import { UserWithRelations, Message, MessageStatus } from '../types/database';
+import { useRealtimeMessages } from '@/hooks/use-realtime-messages';
+import { useConversationPresence } from '@/hooks/use-conversation-presence';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVirtualList } from '@/hooks/use-virtual-list';
+import { useOutbox } from '@/hooks/use-outbox';
+import { OutboxMessage } from '@/lib/outbox';
+import { addMessageToCache, flattenMessagePages, messagesQueryKey, updateMessageInCache } from '@/lib/message-cache';
+import { validateImageFile } from '@/lib/image';
+import { ALLOWED_IMAGE_TYPES } from '@/lib/supabase';
+import ChatImage from '@/components/ChatImage';
+import UnmatchDialog from '@/components/UnmatchDialog';
+import BlockUserDialog from '@/components/BlockUserDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { formatDistanceToNow } from 'date-fns';
+import { DISTANCE_BUCKET_LABELS } from '@/lib/distance-buckets';
+
+const getMessageStatus = (message: Message): MessageStatus => {
+  if (message.read || message.read_at) return 'read';
+  if (message.delivered_at) return 'delivered';
+  return 'sent';
+};
+
+const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '🔥', '👍'];
+
+// Editing and unsending is only allowed for a short while after sending
+const canModifyMessage = (message: Message) =>
+  !message.deleted_at && Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS;
+
+// A row in the conversation: a stored message, or one still waiting in the outbox
+type ChatRow =
+  | { key: string; kind: 'message'; message: Message }
+  | { key: string; kind: 'outbox'; item: OutboxMessage };
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
 const Chat: React.FC = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   const { id } = useParams<{ id: string }>();
   const [newMessage, setNewMessage] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [isSendingImage, setIsSendingImage] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [isUnmatchOpen, setIsUnmatchOpen] = useState(false);
+  const [isBlockOpen, setIsBlockOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch the other user in this match
   const { data: match, isLoading: matchLoading, error: matchError } = useQuery({
     queryKey: ['match', id],
-    queryFn: () => getUserById(id as string),
+    queryFn: () => getMatchPartner(id as string),
     enabled: !!id
   });
 
-  // Fetch messages
-  const { data: messages = [], isLoading: messagesLoading, error: messagesError } = useQuery({
-    queryKey: ['messages', id],
-    queryFn: () => getMessages(id as string),
+  // Only a coarse bucket ever reaches the client, and none at all if either of us hides our location
+  const { data: distanceBucket } = useQuery({
+    queryKey: ['distance-bucket', match?.id],
+    queryFn: async () => (await getDistanceBuckets([match!.id]))[match!.id] ?? null,
+    enabled: !!match?.id
+  });
+
+  const { isPartnerOnline, isPartnerTyping, partnerSharesActivity, notifyTyping } =
+    useConversationPresence(id, user, match);
+
+  // New messages are pushed over the realtime channel
+  const realtimeStatus = useRealtimeMessages(id);
+
+  // Fetch the latest messages; older pages load as the user scrolls up
+  const {
+    data: messagePages,
+    isLoading: messagesLoading,
+    error: messagesError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isFetchNextPageError
+  } = useInfiniteQuery({
+    queryKey: messagesQueryKey(id as string),
+    queryFn: ({ pageParam }) => getMessages(id as string, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: !!id,
-    refetchInterval: 3000 // Poll for new messages every 3 seconds
+    // Only poll while the realtime socket is down
+    refetchInterval: realtimeStatus === 'connected' ? false : 3000
   });
 
-  // Mark messages as read when entering the chat
-  useEffect(() => {
-    if (id) {
-      markMessagesAsRead(id);
+  const messages = useMemo(() => flattenMessagePages(messagePages), [messagePages]);
+  const messagesById = useMemo(() => new Map(messages.map(m => [m.id, m])), [messages]);
+
+  // Messages queued on this device show up immediately as pending bubbles
+  const outbox = useOutbox(id);
+
+  const rows = useMemo<ChatRow[]>(() => {
+    const sentClientIds = new Set(messages.map(m => m.client_id).filter(Boolean));
+    return [
+      ...messages.map(message => ({ key: message.id, kind: 'message' as const, message })),
+      ...outbox.items
+        .filter(item => !sentClientIds.has(item.client_id))
+        .map(item => ({ key: `outbox:${item.client_id}`, kind: 'outbox' as const, item })),
+    ];
+  }, [messages, outbox.items]);
+  const rowKeys = useMemo(() => rows.map(row => row.key), [rows]);
+
+  // Only the bubbles on screen are rendered
+  const { scrollRef, virtualItems, totalSize, measureElement, scrollToEnd } = useVirtualList({
+    keys: rowKeys,
+    estimateSize: 72,
+    followEnd: true,
+    onReachStart: () => {
+      // After a failed page, wait for the user to retry instead of re-requesting on every scroll
+      if (hasNextPage && !isFetchingNextPage && !isFetchNextPageError) {
+        fetchNextPage();
+      }
     }
-  }, [id, messages]);
+  });
 
-  // Scroll to bottom when messages change
+  // Mark their messages as read while the chat is open
+  const hasUnread = !!match && messages.some(m => m.sender_id === match.id && !m.read);
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (id && hasUnread) {
+      markMessagesAsRead(id)
+        .then(() => queryClient.invalidateQueries({ queryKey: ['matches'] }))
+        .catch(() => undefined);
+    }
+  }, [id, hasUnread, queryClient]);
 
   // Handle back navigation
   const handleBack = () => {
@@ -51,20 +161,319 @@ const Chat: React.FC = () => {
     e.preventDefault();
     if (newMessage.trim() === '' || !id) return;
     
+    if (editingMessage) {
+      try {
+        const updated = await editMessage(editingMessage.id, newMessage.trim());
+        updateMessageInCache(queryClient, id, updated);
+        setEditingMessage(null);
+        setNewMessage('');
+      } catch (error) {
+        toast.error("Couldn't edit message. Messages can only be edited for 15 minutes.");
+      }
+      return;
+    }
+    
     try {
-      await sendMessage(id, newMessage.trim());
+      // Queued locally first, so it shows up (and survives) even if we're offline
+      await outbox.send(newMessage.trim(), replyingTo?.id);
       
       // Clear the input
       setNewMessage('');
+      setReplyingTo(null);
       
-      // Invalidate and refetch messages
-      queryClient.invalidateQueries({ queryKey: ['messages', id] });
+      // Jump back to the newest message
+      scrollToEnd();
     } catch (error) {
       console.error('Error sending message:', error);
       toast.error("Failed to send message");
     }
   };
 
+  // Photos are uploaded straight away rather than queued, since the outbox only holds text
+  const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !id) return;
+
+    const validationError = validateImageFile(file);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSendingImage(true);
+    try {
+      const attachment = await uploadMessageImage(id, file);
+      const message = await sendMessage(id, newMessage.trim(), undefined, {
+        attachment,
+        replyToId: replyingTo?.id
+      });
+      addMessageToCache(queryClient, id, message);
+
+      // Any typed text goes along as the caption
+      setNewMessage('');
+      setReplyingTo(null);
+      scrollToEnd();
+    } catch (error) {
+      console.error('Error sending photo:', error);
+      toast.error("Failed to send photo");
+    } finally {
+      setIsSendingImage(false);
+    }
+  };
+
+  const handleStartReply = (message: Message) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+  };
+
+  const handleStartEdit = (message: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.message);
+  };
+
+  const handleCancelCompose = () => {
+    if (editingMessage) setNewMessage('');
+    setEditingMessage(null);
+    setReplyingTo(null);
+  };
+
+  const handleUnsend = async (message: Message) => {
+    if (!id) return;
+    
+    try {
+      const updated = await unsendMessage(message);
+      updateMessageInCache(queryClient, id, updated);
+      if (editingMessage?.id === message.id) handleCancelCompose();
+    } catch (error) {
+      toast.error("Couldn't unsend message. Messages can only be unsent for 15 minutes.");
+    }
+  };
+
+  const handleReaction = async (message: Message, emoji: string) => {
+    if (!id) return;
+    
+    try {
+      const reactions = await toggleReaction(message.id, emoji);
+      updateMessageInCache(queryClient, id, { ...message, reactions });
+    } catch (error) {
+      toast.error("Couldn't add reaction");
+    }
+  };
+
+  // Report the person, or one of their messages
+  const handleReport = (message?: Message) => {
+    if (!match) return;
+    
+    navigate('/report', {
+      state: {
+        from: `/chat/${id}`,
+        reportedUser: { authId: match.auth_id, name: match.name },
+        matchId: id,
+        messageId: message?.id
+      }
+    });
+  };
+
+  // Who a message came from, for reply quotes
+  const getSenderName = (message: Message) => (message.sender_id === match?.id ? match.name : 'You');
+
+  // Short text for a message when quoted
+  const getMessageSnippet = (message: Message) => {
+    if (message.deleted_at) return 'Message unsent';
+    return message.message || '📷 Photo';
+  };
+
+  // Quoted message shown at the top of a reply bubble
+  const renderReplyQuote = (replyToId: string, fromPartner: boolean) => {
+    const original = messagesById.get(replyToId);
+
+    return (
+      <div
+        className={`mb-2 border-l-2 pl-2 text-xs ${
+          fromPartner ? 'border-princeton-orange text-princeton-white/70' : 'border-princeton-black/50 text-princeton-black/70'
+        }`}
+      >
+        {original ? (
+          <>
+            <div className="font-semibold">{getSenderName(original)}</div>
+            <div className="truncate">{getMessageSnippet(original)}</div>
+          </>
+        ) : (
+          <div className="italic">Replying to an earlier message</div>
+        )}
+      </div>
+    );
+  };
+
+  // Reaction chips under a bubble, grouped by emoji
+  const renderReactions = (message: Message, fromPartner: boolean) => {
+    const reactions = Object.entries(message.reactions || {});
+    if (reactions.length === 0) return null;
+
+    const counts = new Map<string, number>();
+    reactions.forEach(([, emoji]) => counts.set(emoji, (counts.get(emoji) || 0) + 1));
+    const myReaction = user ? message.reactions?.[user.id] : undefined;
+
+    return (
+      <div className={`flex gap-1 -mt-2 ${fromPartner ? 'justify-start' : 'justify-end'}`}>
+        {[...counts.entries()].map(([emoji, count]) => (
+          <button
+            key={emoji}
+            onClick={() => handleReaction(message, emoji)}
+            className={`rounded-full px-2 py-0.5 text-xs bg-secondary border ${
+              myReaction === emoji ? 'border-princeton-orange' : 'border-transparent'
+            }`}
+            aria-label={`${emoji} reaction${count > 1 ? `, ${count} people` : ''}`}
+          >
+            {emoji}{count > 1 && <span className="ml-1 text-princeton-white/70">{count}</span>}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  // React / reply / edit / unsend menu next to a bubble
+  const renderMessageActions = (message: Message, fromPartner: boolean) => {
+    const canModify = !fromPartner && canModifyMessage(message);
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="self-center mx-1 p-1 text-princeton-white/40 hover:text-princeton-orange"
+            aria-label="Message actions"
+          >
+            <MoreHorizontal size={16} />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align={fromPartner ? 'start' : 'end'}>
+          <div className="flex gap-1 px-1 py-1">
+            {REACTION_EMOJIS.map(emoji => (
+              <DropdownMenuItem
+                key={emoji}
+                onSelect={() => handleReaction(message, emoji)}
+                className={`text-lg px-1.5 ${user && message.reactions?.[user.id] === emoji ? 'bg-accent' : ''}`}
+              >
+                {emoji}
+              </DropdownMenuItem>
+            ))}
+          </div>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => handleStartReply(message)}>
+            <Reply size={14} className="mr-2" />
+            Reply
+          </DropdownMenuItem>
+          {canModify && message.message && (
+            <DropdownMenuItem onSelect={() => handleStartEdit(message)}>
+              <Pencil size={14} className="mr-2" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          {canModify && (
+            <DropdownMenuItem onSelect={() => handleUnsend(message)} className="text-red-500">
+              <Trash2 size={14} className="mr-2" />
+              Unsend
+            </DropdownMenuItem>
+          )}
+          {fromPartner && (
+            <DropdownMenuItem onSelect={() => handleReport(message)} className="text-red-500">
+              <Flag size={14} className="mr-2" />
+              Report message
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  // "typing…" / "Online now" / "Last seen", only for people sharing their active status
+  const renderActivityStatus = () => {
+    if (!partnerSharesActivity) return null;
+
+    if (isPartnerTyping) {
+      return <div className="text-xs text-princeton-orange animate-pulse">typing…</div>;
+    }
+
+    if (isPartnerOnline) {
+      return (
+        <div className="flex items-center text-xs text-green-400">
+          <span className="w-2 h-2 rounded-full bg-green-400 mr-1" />
+          <span>Online now</span>
+        </div>
+      );
+    }
+
+    if (match?.last_active_at) {
+      return (
+        <div className="text-xs text-princeton-white/60">
+          Last seen {formatDistanceToNow(new Date(match.last_active_at), { addSuffix: true })}
+        </div>
+      );
+    }
+
+    return null;
+  };
+
+  // Sent / delivered / read ticks on my own bubbles
+  const renderStatus = (message: Message) => {
+    const status = getMessageStatus(message);
+    const label = status === 'read' && message.read_at
+      ? `Read ${formatTime(message.read_at)}`
+      : status.charAt(0).toUpperCase() + status.slice(1);
+
+    return (
+      <span className="inline-flex items-center ml-1 align-middle" title={label} aria-label={label}>
+        {status === 'sent' ? <Check size={12} /> : (
+          <CheckCheck size={12} className={status === 'read' ? 'text-blue-700' : undefined} />
+        )}
+      </span>
+    );
+  };
+
+  // Optimistic bubble for a message that hasn't reached the server yet
+  const renderOutboxBubble = (item: OutboxMessage) => (
+    <div className="max-w-[75%] flex flex-col items-end">
+      <div
+        className={`rounded-2xl px-4 py-3 bg-princeton-orange text-princeton-black ${
+          item.status === 'failed' ? 'opacity-60' : 'opacity-80'
+        }`}
+      >
+        {item.reply_to_id && renderReplyQuote(item.reply_to_id, false)}
+        <div className="text-sm break-words">{item.message}</div>
+        <div className="text-[10px] mt-1 text-princeton-black/70">
+          {formatTime(item.created_at)}
+          <span className="inline-flex items-center ml-1 align-middle" title="Sending" aria-label="Sending">
+            {item.status === 'pending' && <Clock size={12} />}
+          </span>
+        </div>
+      </div>
+      {item.status === 'failed' && (
+        <div className="flex items-center gap-3 mt-1 text-xs">
+          <span className="flex items-center text-red-400">
+            <AlertCircle size={12} className="mr-1" />
+            Not sent
+          </span>
+          <button
+            onClick={() => outbox.retry(item.client_id)}
+            className="flex items-center text-princeton-orange hover:underline"
+          >
+            <RotateCw size={12} className="mr-1" />
+            Retry
+          </button>
+          <button
+            onClick={() => outbox.discard(item.client_id)}
+            className="flex items-center text-princeton-white/60 hover:text-princeton-white"
+          >
+            <Trash2 size={12} className="mr-1" />
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
   // Display loading state
   if (matchLoading || messagesLoading) {
     return (
@@ -75,7 +484,8 @@ const Chat: React.FC = () => {
   }
 
   // Handle errors
-  if (matchError || messagesError || !match) {
+  // A failed refresh or older page keeps what's already loaded on screen
+  if (matchError || (messagesError && !messagePages) || !match) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-b from-black to-[#121212]">
         <div className="text-princeton-white mb-4">Chat not found</div>
@@ -90,7 +500,7 @@ const Chat: React.FC = () => {
   }
 
   return (
-    <div className="min-h-screen flex flex-col bg-gradient-to-b from-black to-[#121212]">
+    <div className="h-screen flex flex-col bg-gradient-to-b from-black to-[#121212]">
       <header className="container sticky top-0 z-10 mx-auto px-4 py-3 flex items-center bg-black border-b border-princeton-orange/20">
         <button 
           onClick={handleBack}
@@ -109,26 +519,63 @@ const Chat: React.FC = () => {
             <h3 className="font-bold text-princeton-white">
               {match.name} <span className="text-princeton-white/60 font-normal">'{match.class_year.slice(-2)}</span>
             </h3>
-            <div className="flex items-center text-xs text-princeton-white/60">
-              <MapPin size={12} className="mr-1" />
-              <span>{match.building || "Near Princeton"}</span>
-            </div>
+            {renderActivityStatus() || (distanceBucket && (
+              <div className="flex items-center text-xs text-princeton-white/60">
+                <MapPin size={12} className="mr-1" />
+                <span>{DISTANCE_BUCKET_LABELS[distanceBucket]}</span>
+              </div>
+            ))}
           </div>
         </div>
         
-        <div className="ml-auto">
+        <div className="ml-auto flex items-center gap-3">
           <button 
             onClick={() => navigate(`/profile/${match.auth_id}`)}
             className="text-princeton-white/70 hover:text-princeton-orange"
           >
             <InfoIcon size={22} />
           </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="text-princeton-white/70 hover:text-princeton-orange" aria-label="More options">
+                <MoreVertical size={22} />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => setIsUnmatchOpen(true)} className="text-red-500">
+                <UserX size={14} className="mr-2" />
+                Unmatch
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleReport()}>
+                <Flag size={14} className="mr-2" />
+                Report
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setIsBlockOpen(true)} className="text-red-500">
+                <Ban size={14} className="mr-2" />
+                Block
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </header>
 
-      <main className="flex-1 container mx-auto px-4 py-6 overflow-y-auto">
-        <div className="space-y-4">
-          {messages.length === 0 ? (
+      <UnmatchDialog
+        open={isUnmatchOpen}
+        onOpenChange={setIsUnmatchOpen}
+        matchId={id as string}
+        partner={{ authId: match.auth_id, name: match.name }}
+      />
+
+      <BlockUserDialog
+        open={isBlockOpen}
+        onOpenChange={setIsBlockOpen}
+        user={{ id: match.id, name: match.name }}
+        onBlocked={() => navigate('/matches')}
+      />
+
+      <main ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto">
+        <div className="container mx-auto px-4 py-6">
+          {rows.length === 0 ? (
             <div className="text-center py-10">
               <div className="w-16 h-16 bg-secondary rounded-full flex items-center justify-center mx-auto mb-4">
                 <Send size={32} className="text-princeton-orange" />
@@ -139,42 +586,146 @@ const Chat: React.FC = () => {
               </p>
             </div>
           ) : (
-            messages.map((message) => (
-              <div 
-                key={message.id}
-                className={`flex ${message.sender_id === match.auth_id ? 'justify-start' : 'justify-end'}`}
-              >
-                <div 
-                  className={`max-w-[75%] rounded-2xl px-4 py-3 ${
-                    message.sender_id === match.auth_id 
-                      ? 'bg-secondary text-princeton-white' 
-                      : 'bg-princeton-orange text-princeton-black'
-                  }`}
-                >
-                  <div className="text-sm">{message.message}</div>
-                  <div 
-                    className={`text-[10px] mt-1 ${
-                      message.sender_id === match.auth_id
-                        ? 'text-princeton-white/60' 
-                        : 'text-princeton-black/70'
-                    }`}
+            <>
+              {isFetchingNextPage && (
+                <div className="flex justify-center pb-4">
+                  <Loader size={18} className="animate-spin text-princeton-orange" />
+                </div>
+              )}
+              {isFetchNextPageError && !isFetchingNextPage && (
+                <div className="flex justify-center items-center gap-2 pb-4 text-xs text-princeton-white/60">
+                  <AlertCircle size={12} />
+                  <span>Couldn't load older messages</span>
+                  <button
+                    onClick={() => fetchNextPage()}
+                    className="flex items-center text-princeton-orange hover:underline"
                   >
-                    {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </div>
+                    <RotateCw size={12} className="mr-1" />
+                    Retry
+                  </button>
                 </div>
+              )}
+              <div className="relative" style={{ height: totalSize }}>
+                {virtualItems.map(({ key, index, start }) => {
+                  const row = rows[index];
+
+                  if (row.kind === 'outbox') {
+                    return (
+                      <div
+                        key={key}
+                        ref={measureElement}
+                        data-key={key}
+                        data-start={start}
+                        className="absolute left-0 right-0 pb-4 flex justify-end"
+                        style={{ top: start }}
+                      >
+                        {renderOutboxBubble(row.item)}
+                      </div>
+                    );
+                  }
+
+                  const message = row.message;
+                  const fromPartner = message.sender_id === match.id;
+                  return (
+                    <div
+                      key={key}
+                      ref={measureElement}
+                      data-key={key}
+                      data-start={start}
+                      className="absolute left-0 right-0 pb-4"
+                      style={{ top: start }}
+                    >
+                      <div className={`flex ${fromPartner ? 'justify-start' : 'justify-end'}`}>
+                        {!fromPartner && !message.deleted_at && renderMessageActions(message, fromPartner)}
+                        <div 
+                          className={`max-w-[75%] rounded-2xl px-4 py-3 ${
+                            fromPartner 
+                              ? 'bg-secondary text-princeton-white' 
+                              : 'bg-princeton-orange text-princeton-black'
+                          } ${message.deleted_at ? 'opacity-60' : ''}`}
+                        >
+                          {message.deleted_at ? (
+                            <div className="text-sm italic">
+                              {fromPartner ? `${match.name} unsent a message` : 'You unsent a message'}
+                            </div>
+                          ) : (
+                            <>
+                              {message.reply_to_id && renderReplyQuote(message.reply_to_id, fromPartner)}
+                              {message.image_path && (
+                                <ChatImage
+                                  path={message.image_path}
+                                  thumbPath={message.image_thumb_path}
+                                  alt={`Photo from ${fromPartner ? match.name : 'you'}`}
+                                />
+                              )}
+                              {message.message && (
+                                <div className={`text-sm break-words ${message.image_path ? 'mt-2' : ''}`}>{message.message}</div>
+                              )}
+                            </>
+                          )}
+                          <div 
+                            className={`text-[10px] mt-1 ${
+                              fromPartner
+                                ? 'text-princeton-white/60' 
+                                : 'text-princeton-black/70'
+                            }`}
+                          >
+                            {formatTime(message.created_at)}
+                            {message.edited_at && !message.deleted_at && <span className="ml-1">· edited</span>}
+                            {!fromPartner && renderStatus(message)}
+                          </div>
+                        </div>
+                        {fromPartner && !message.deleted_at && renderMessageActions(message, fromPartner)}
+                      </div>
+                      {!message.deleted_at && renderReactions(message, fromPartner)}
+                    </div>
+                  );
+                })}
               </div>
-            ))
+            </>
           )}
-          <div ref={messagesEndRef} /> {/* Scroll anchor */}
         </div>
       </main>
 
       <footer className="container mx-auto px-4 py-3 border-t border-princeton-orange/20">
+        {(replyingTo || editingMessage) && (
+          <div className="flex items-center mb-2 px-3 py-2 rounded-lg bg-secondary text-xs text-princeton-white/80">
+            {editingMessage ? <Pencil size={14} className="mr-2 text-princeton-orange" /> : <Reply size={14} className="mr-2 text-princeton-orange" />}
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold">
+                {editingMessage ? 'Editing message' : `Replying to ${getSenderName(replyingTo as Message)}`}
+              </div>
+              {replyingTo && <div className="truncate">{getMessageSnippet(replyingTo)}</div>}
+            </div>
+            <button onClick={handleCancelCompose} className="ml-2 hover:text-princeton-orange" aria-label="Cancel">
+              <X size={16} />
+            </button>
+          </div>
+        )}
         <form onSubmit={handleSendMessage} className="flex items-center">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ALLOWED_IMAGE_TYPES.join(',')}
+            onChange={handleImageSelected}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSendingImage || !!editingMessage}
+            className="text-princeton-white/70 hover:text-princeton-orange mr-3 disabled:opacity-50"
+            aria-label="Send a photo"
+          >
+            {isSendingImage ? <Loader size={22} className="animate-spin" /> : <ImagePlus size={22} />}
+          </button>
           <input
             type="text"
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => {
+              setNewMessage(e.target.value);
+              notifyTyping();
+            }}
             placeholder="Type a message..."
             className="flex-1 bg-secondary rounded-l-full px-4 py-2 text-princeton-white placeholder:text-princeton-white/50 focus:outline-none border-y border-l border-princeton-orange/30"
           />
@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, Calendar, Clock, MapPin, MessageCircle, Navigation, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import Logo from '../components/Logo';
+import ZoneCheckInButton from '../components/ZoneCheckInButton';
+import HotZoneEventItem from '../components/HotZoneEventItem';
+import { getHotZone, getHotZoneMatches, getMyLocation } from '../lib/api';
+import { subscribeToHotZone } from '../lib/realtime';
+import { distanceKm } from '../lib/discovery';
+import { hasEnded } from '../lib/hot-zone-events';
+import { useEventRsvps } from '../hooks/use-event-rsvps';
+import { HotZone, HotZoneEvent } from '../types/database';
+
+// Average walking pace on campus paths
+const WALKING_KM_PER_HOUR = 5;
+
+const HotZoneDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: zone, isLoading, error } = useQuery({
+    queryKey: ['hot-zone', id],
+    queryFn: () => getHotZone(id!),
+    enabled: !!id,
+    // Realtime keeps the count live; polling covers a dropped channel
+    refetchInterval: 60000,
+    meta: {
+      onError: (error: Error) => {
+        console.error("Error fetching hot zone:", error);
+        toast.error("Failed to load hot zone");
+      }
+    }
+  });
+
+  const { data: nearbyMatches = [] } = useQuery({
+    queryKey: ['hot-zone-matches', id],
+    queryFn: () => getHotZoneMatches(id!),
+    enabled: !!id,
+    refetchInterval: 60000
+  });
+
+  // The user's own building and its coordinates, which only they can read
+  const { data: myLocation } = useQuery({
+    queryKey: ['my-location'],
+    queryFn: getMyLocation
+  });
+
+  const eventIds = useMemo(() => (zone?.events || []).map(event => event.id), [zone?.events]);
+  const rsvps = useEventRsvps(eventIds);
+
+  // Keep the active count live, leaving the cached schedule in place
+  useEffect(() => {
+    if (!id) return;
+
+    return subscribeToHotZone(id, (updated) => {
+      queryClient.setQueryData<HotZone | null>(['hot-zone', id], (previous) =>
+        previous ? { ...previous, ...updated, events: previous.events } : previous
+      );
+    });
+  }, [id, queryClient]);
+
+  const hasZoneLocation = zone?.latitude != null && zone?.longitude != null;
+  const hasHomeLocation = !!myLocation;
+
+  const distance = hasZoneLocation && hasHomeLocation
+    ? distanceKm(myLocation!.latitude, myLocation!.longitude, zone!.latitude!, zone!.longitude!)
+    : null;
+  const walkingMinutes = distance !== null
+    ? Math.max(1, Math.round((distance / WALKING_KM_PER_HOUR) * 60))
+    : null;
+
+  const directionsUrl = hasZoneLocation
+    ? `https://www.google.com/maps/dir/?api=1&travelmode=walking&destination=${zone!.latitude},${zone!.longitude}` +
+      (hasHomeLocation ? `&origin=${myLocation!.latitude},${myLocation!.longitude}` : '')
+    : null;
+
+  const upcomingEvents = (zone?.events || []).filter(event => !hasEnded(event));
+  const pastEvents = (zone?.events || []).filter(event => hasEnded(event));
+
+  const renderEvent = (event: HotZoneEvent) => (
+    <HotZoneEventItem
+      key={event.id}
+      event={event}
+      isGoing={rsvps.isGoing(event.id)}
+      isPending={rsvps.isPending(event.id)}
+      matchesGoing={rsvps.matchesGoingTo(event.id)}
+      onToggleRsvp={rsvps.toggleRsvp}
+    />
+  );
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-black to-[#121212]">
+      <header className="container mx-auto px-4 py-4 flex items-center">
+        <button
+          onClick={() => navigate('/hot-zones')}
+          className="text-princeton-white hover:text-princeton-orange transition-colors mr-4"
+          aria-label="Back to hot zones"
+        >
+          <ArrowLeft size={24} />
+        </button>
+        <Logo />
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6">
+        {isLoading && (
+          <div className="flex items-center justify-center py-10">
+            <div className="animate-pulse text-princeton-orange text-lg">Loading hot zone...</div>
+          </div>
+        )}
+
+        {error && (
+          <div className="text-center py-10">
+            <div className="text-red-500 mb-2">Failed to load hot zone</div>
+            <button
+              onClick={() => window.location.reload()}
+              className="text-princeton-orange underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {!isLoading && !error && !zone && (
+          <div className="text-center py-10">
+            <div className="text-princeton-white mb-4">This hot zone doesn't exist anymore</div>
+            <button
+              onClick={() => navigate('/hot-zones')}
+              className="text-princeton-orange underline"
+            >
+              See all hot zones
+            </button>
+          </div>
+        )}
+
+        {zone && (
+          <div className="space-y-6">
+            <div className="relative overflow-hidden rounded-xl border border-princeton-orange/30">
+              <div className="relative h-56">
+                <img
+                  src={zone.image_url || '/placeholder.svg'}
+                  alt={zone.name}
+                  className="w-full h-full object-cover"
+                />
+                <div className="absolute inset-0 bg-gradient-to-t from-black via-black/50 to-transparent" />
+
+                <div className="absolute bottom-0 left-0 right-0 p-4">
+                  <h1 className="text-2xl font-bold text-white">{zone.name}</h1>
+                  <div className="flex items-center text-princeton-white/70 text-sm mt-1">
+                    <MapPin size={14} className="mr-1" />
+                    <span>{zone.distance || "On campus"}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-secondary p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center text-princeton-white" aria-live="polite">
+                    <span className="relative flex h-2 w-2 mr-2" aria-hidden="true">
+                      <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-princeton-orange opacity-75" />
+                      <span className="relative inline-flex rounded-full h-2 w-2 bg-princeton-orange" />
+                    </span>
+                    <Users size={18} className="text-princeton-orange mr-2" />
+                    <span>{zone.active_users} {zone.active_users === 1 ? 'Tiger' : 'Tigers'} checked in now</span>
+                  </div>
+                  <ZoneCheckInButton zoneId={zone.id} zoneName={zone.name} />
+                </div>
+                <div className="flex items-center text-princeton-white/60 text-xs">
+                  <Clock size={12} className="mr-1" />
+                  <span>
+                    {zone.occupancy_updated_at
+                      ? `Updated ${formatDistanceToNow(new Date(zone.occupancy_updated_at), { addSuffix: true })}`
+                      : 'No check-ins yet'}
+                  </span>
+                </div>
+                {zone.description && (
+                  <p className="text-princeton-white/80 text-sm">{zone.description}</p>
+                )}
+              </div>
+            </div>
+
+            <section className="rounded-xl bg-secondary p-4">
+              <h2 className="text-lg font-semibold text-princeton-white mb-3 flex items-center">
+                <Navigation size={18} className="text-princeton-orange mr-2" />
+                Getting there
+              </h2>
+              {directionsUrl ? (
+                <>
+                  <p className="text-princeton-white/70 text-sm mb-3">
+                    {distance !== null && walkingMinutes !== null
+                      ? `About ${walkingMinutes} min walk (${distance.toFixed(1)} km) from ${myLocation?.building?.name || 'your building'}`
+                      : 'Add your building to your profile to see how far it is from you'}
+                  </p>
+                  <a
+                    href={directionsUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center px-4 py-2 rounded-lg bg-princeton-orange text-princeton-black font-medium text-sm hover:bg-princeton-orange/90 transition-colors"
+                  >
+                    <Navigation size={16} className="mr-2" />
+                    Walking directions
+                  </a>
+                </>
+              ) : (
+                <p className="text-princeton-white/70 text-sm">Directions aren't available for this zone yet</p>
+              )}
+            </section>
+
+            <section className="rounded-xl bg-secondary p-4">
+              <h2 className="text-lg font-semibold text-princeton-white mb-3 flex items-center">
+                <Users size={18} className="text-princeton-orange mr-2" />
+                Matches nearby
+              </h2>
+              {nearbyMatches.length > 0 ? (
+                <ul className="space-y-2">
+                  {nearbyMatches.map(match => (
+                    <li key={match.matchId}>
+                      <button
+                        onClick={() => navigate(`/chat/${match.matchId}`)}
+                        className="w-full flex items-center gap-3 p-2 rounded-lg hover:bg-black/30 transition-colors text-left"
+                      >
+                        <img
+                          src={match.photoUrl || '/placeholder.svg'}
+                          alt={match.name}
+                          className="w-10 h-10 rounded-full object-cover"
+                        />
+                        <span className="flex-1 text-princeton-white">{match.name}</span>
+                        <MessageCircle size={18} className="text-princeton-orange" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-princeton-white/70 text-sm">None of your matches are here right now</p>
+              )}
+            </section>
+
+            <section className="rounded-xl bg-secondary p-4">
+              <h2 className="text-lg font-semibold text-princeton-white mb-3 flex items-center">
+                <Calendar size={18} className="text-princeton-orange mr-2" />
+                Schedule
+              </h2>
+              {upcomingEvents.length > 0 || pastEvents.length > 0 ? (
+                <ul className="space-y-2">
+                  {upcomingEvents.map(renderEvent)}
+                  {pastEvents.map(renderEvent)}
+                </ul>
+              ) : (
+                <p className="text-princeton-white/70 text-sm">No scheduled events</p>
+              )}
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default HotZoneDetail;
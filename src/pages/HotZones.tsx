@@ -1,14 +1,37 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Logo from '../components/Logo';
-import { ArrowLeft, MapPin, Users, Clock, ChevronRight } from 'lucide-react';
-import { useQuery } from '@tanstack/react-query';
-import { getHotZones } from '../lib/api';
+import ZoneCheckInButton from '../components/ZoneCheckInButton';
+import CampusMap from '../components/CampusMap';
+import HotZoneTimeline from '../components/HotZoneTimeline';
+import { ToggleGroup, ToggleGroupItem } from '../components/ui/toggle-group';
+import { Switch } from '../components/ui/switch';
+import { Label } from '../components/ui/label';
+import { ArrowLeft, MapPin, Users, Clock, ChevronRight, List, Map } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceToNow } from 'date-fns';
+import { getCampusBuildings, getCurrentUser, getHotZones, updateUserSettings } from '../lib/api';
+import { useCurrentPosition } from '../hooks/use-current-position';
+import { subscribeToHotZones } from '../lib/realtime';
+import { EVENT_CATEGORY_LABELS, hasEnded } from '../lib/hot-zone-events';
+import { HotZone } from '../types/database';
 import { toast } from 'sonner';
 
+// Events still to come or on now, for the chips on each zone card
+const upcomingEvents = (zone: HotZone) => (zone.events || []).filter(event => !hasEnded(event));
+
+const formatUpdatedAt = (zone: HotZone) =>
+  zone.occupancy_updated_at
+    ? `Updated ${formatDistanceToNow(new Date(zone.occupancy_updated_at), { addSuffix: true })}`
+    : 'No check-ins yet';
+
 const HotZones: React.FC = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  // Re-render every minute so the "updated" times don't go stale
+  const [, setNow] = useState(Date.now());
+  const [view, setView] = useState<'list' | 'map'>('list');
   
   // Fetch hot zones data
   const { data: hotZones = [], isLoading, error } = useQuery({
@@ -22,6 +45,47 @@ const HotZones: React.FC = () => {
     }
   });
 
+  const { data: currentUser } = useQuery({
+    queryKey: ['currentUser'],
+    queryFn: getCurrentUser
+  });
+  const autoCheckIn = !!currentUser?.settings?.autoCheckIn;
+  const locationEnabled = currentUser?.settings?.locationEnabled ?? true;
+
+  const { data: buildings = [] } = useQuery({
+    queryKey: ['campus-buildings'],
+    queryFn: getCampusBuildings,
+    enabled: view === 'map',
+    staleTime: Infinity
+  });
+
+  // Only follow the user's position while the map is showing and they share their location
+  const position = useCurrentPosition(view === 'map' && !!currentUser && locationEnabled);
+
+  // Push occupancy changes into the list as check-ins come and go
+  useEffect(() => {
+    return subscribeToHotZones((updated) => {
+      queryClient.setQueryData<HotZone[]>(['hot-zones'], (previous) =>
+        previous?.map(zone => (zone.id === updated.id ? { ...zone, ...updated, events: zone.events } : zone))
+      );
+    });
+  }, [queryClient]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 60000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const handleAutoCheckInChange = async (value: boolean) => {
+    try {
+      await updateUserSettings({ autoCheckIn: value });
+      queryClient.invalidateQueries({ queryKey: ['currentUser'] });
+      toast.success(value ? "We'll check you in when you're at a hot zone" : 'Automatic check-in turned off');
+    } catch {
+      toast.error("Couldn't update automatic check-in");
+    }
+  };
+
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-b from-black to-[#121212]">
       <header className="container mx-auto px-4 py-4 flex items-center">
@@ -39,6 +103,40 @@ const HotZones: React.FC = () => {
         <p className="text-princeton-white/70 mb-6">
           Find where Tigers are gathering during Reunions
         </p>
+
+        <div className="flex items-center justify-between gap-4 rounded-xl bg-secondary p-4 mb-6">
+          <div>
+            <Label htmlFor="auto-check-in" className="text-princeton-white">Check me in automatically</Label>
+            <p className="text-princeton-white/60 text-sm mt-1">
+              Uses your location to check you in while you're at a hot zone. Only counts are shared.
+            </p>
+          </div>
+          <Switch
+            id="auto-check-in"
+            checked={autoCheckIn}
+            onCheckedChange={handleAutoCheckInChange}
+            disabled={!currentUser}
+          />
+        </div>
+
+        {!isLoading && !error && <HotZoneTimeline zones={hotZones} />}
+
+        <ToggleGroup
+          type="single"
+          value={view}
+          onValueChange={(value) => value && setView(value as 'list' | 'map')}
+          className="justify-start mb-4"
+          aria-label="Hot zones view"
+        >
+          <ToggleGroupItem value="list" className="text-princeton-white data-[state=on]:text-princeton-orange">
+            <List size={16} className="mr-2" />
+            List
+          </ToggleGroupItem>
+          <ToggleGroupItem value="map" className="text-princeton-white data-[state=on]:text-princeton-orange">
+            <Map size={16} className="mr-2" />
+            Map
+          </ToggleGroupItem>
+        </ToggleGroup>
         
         {isLoading && (
           <div className="flex items-center justify-center py-10">
@@ -58,7 +156,16 @@ const HotZones: React.FC = () => {
           </div>
         )}
         
-        {!isLoading && !error && (
+        {!isLoading && !error && view === 'map' && hotZones.length > 0 && (
+          <CampusMap
+            zones={hotZones}
+            buildings={buildings}
+            position={position}
+            onSelectZone={(zoneId) => navigate(`/hot-zone/${zoneId}`)}
+          />
+        )}
+
+        {!isLoading && !error && (view === 'list' || hotZones.length === 0) && (
           <div className="space-y-4">
             {hotZones.length > 0 ? hotZones.map((zone) => (
               <div 
@@ -84,13 +191,11 @@ const HotZones: React.FC = () => {
                           <span>{zone.distance || "On campus"}</span>
                           <span className="mx-2">•</span>
                           <Clock size={14} className="mr-1" />
-                          <span>Updated recently</span>
+                          <span>{formatUpdatedAt(zone)}</span>
                         </div>
                       </div>
                       
-                      <div className="bg-princeton-orange text-princeton-black px-3 py-1 rounded-lg font-medium text-sm">
-                        {zone.matches_nearby || zone.active_users} {zone.matches_nearby === 1 ? 'match' : 'matches'}
-                      </div>
+                      <ZoneCheckInButton zoneId={zone.id} zoneName={zone.name} />
                     </div>
                   </div>
                 </div>
@@ -100,7 +205,7 @@ const HotZones: React.FC = () => {
                   <div className="flex justify-between items-center mb-3">
                     <div className="flex items-center text-princeton-white">
                       <Users size={18} className="text-princeton-orange mr-2" />
-                      <span>{zone.active_users} Tigers active now</span>
+                      <span>{zone.active_users} {zone.active_users === 1 ? 'Tiger' : 'Tigers'} checked in now</span>
                     </div>
                     <button 
                       onClick={() => navigate(`/hot-zone/${zone.id}`)}
@@ -111,12 +216,18 @@ const HotZones: React.FC = () => {
                   </div>
                   
                   <div className="flex flex-wrap gap-2">
-                    {zone.events && Array.isArray(zone.events) ? zone.events.map((event, index) => (
+                    {upcomingEvents(zone).length > 0 ? upcomingEvents(zone).map((event) => (
                       <div 
-                        key={index}
+                        key={event.id}
                         className="px-3 py-1 bg-black/30 text-princeton-white/80 rounded-full text-sm"
                       >
                         {event.name}
+                        <span className="text-princeton-white/50">
+                          {' · '}
+                          {event.starts_at
+                            ? format(new Date(event.starts_at), 'EEE h:mm a')
+                            : EVENT_CATEGORY_LABELS[event.category || 'other']}
+                        </span>
                       </div>
                     )) : (
                       <div className="px-3 py-1 bg-black/30 text-princeton-white/80 rounded-full text-sm">
@@ -2,10 +2,10 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Heart, X, ArrowLeft, User, Eye } from 'lucide-react';
+import { Heart, X, ArrowLeft, User, Eye, Ban, Star } from 'lucide-react';
 import { toast } from 'sonner';
 import { getUserLikers, recordSwipe } from '@/lib/api';
-import { UserWithRelations } from '@/types/database';
+import { Admirer } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
@@ -18,12 +18,14 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import BlockUserDialog from '@/components/BlockUserDialog';
 
 const LikersPage: React.FC = () => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
-  const [selectedUser, setSelectedUser] = useState<UserWithRelations | null>(null);
+  const [selectedUser, setSelectedUser] = useState<Admirer | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [blockOpen, setBlockOpen] = useState(false);
 
   const { data: likers, isLoading, isError, refetch } = useQuery({
     queryKey: ['likers'],
@@ -34,13 +36,14 @@ const LikersPage: React.FC = () => {
   const swipeMutation = useMutation({
     mutationFn: ({ userId, direction }: { userId: string, direction: 'left' | 'right' }) => 
       recordSwipe(userId, direction),
-    onSuccess: (isMatch, variables) => {
+    onSuccess: (result, variables) => {
       // If it's a right swipe (like back) and it resulted in a match
-      if (isMatch && variables.direction === 'right') {
+      if (result.matched && variables.direction === 'right') {
+        queryClient.invalidateQueries({ queryKey: ['matches'] });
         toast.success("It's a match! 🎉", {
           action: {
-            label: "View Matches",
-            onClick: () => navigate('/matches')
+            label: "Say hi",
+            onClick: () => navigate(result.matchId ? `/chat/${result.matchId}` : '/matches')
           }
         });
       } else if (variables.direction === 'right') {
@@ -66,7 +69,7 @@ const LikersPage: React.FC = () => {
     swipeMutation.mutate({ userId, direction });
   };
 
-  const handleViewProfile = (user: UserWithRelations) => {
+  const handleViewProfile = (user: Admirer) => {
     setSelectedUser(user);
     setDialogOpen(true);
   };
@@ -173,8 +176,11 @@ const LikersPage: React.FC = () => {
         </div>
         
         <div className="space-y-6">
-          {likers.map((user: UserWithRelations) => (
-            <Card key={user.id} className="bg-secondary border-none overflow-hidden">
+          {likers.map((user: Admirer) => (
+            <Card
+              key={user.id}
+              className={`bg-secondary overflow-hidden ${user.superLikedMe ? 'border-2 border-sky-400' : 'border-none'}`}
+            >
               <CardHeader className="p-0">
                 <Carousel>
                   <CarouselContent>
@@ -214,10 +220,17 @@ const LikersPage: React.FC = () => {
                     <h2 className="text-xl font-bold text-princeton-white">{user.name}, {user.class_year}</h2>
                     {user.major && <p className="text-princeton-orange">{user.major}</p>}
                   </div>
-                  <div className="flex items-center bg-pink-500/20 px-2 py-1 rounded-full">
-                    <Heart className="text-pink-500 fill-pink-500 mr-1" size={16} />
-                    <span className="text-xs text-pink-300">Likes you</span>
-                  </div>
+                  {user.superLikedMe ? (
+                    <div className="flex items-center bg-sky-500/20 px-2 py-1 rounded-full">
+                      <Star className="text-sky-400 fill-sky-400 mr-1" size={16} />
+                      <span className="text-xs text-sky-300">Super liked you</span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center bg-pink-500/20 px-2 py-1 rounded-full">
+                      <Heart className="text-pink-500 fill-pink-500 mr-1" size={16} />
+                      <span className="text-xs text-pink-300">Likes you</span>
+                    </div>
+                  )}
                 </div>
                 
                 {/* Intention - Simplified */}
@@ -401,11 +414,32 @@ const LikersPage: React.FC = () => {
                     Like Back
                   </Button>
                 </div>
+                
+                <Button
+                  variant="ghost"
+                  className="w-full mt-4 text-red-400 hover:text-red-500 hover:bg-red-500/10"
+                  onClick={() => setBlockOpen(true)}
+                >
+                  <Ban className="mr-2 h-4 w-4" />
+                  Block {selectedUser.name}
+                </Button>
               </div>
             </ScrollArea>
           )}
         </DialogContent>
       </Dialog>
+      
+      {selectedUser && (
+        <BlockUserDialog
+          open={blockOpen}
+          onOpenChange={setBlockOpen}
+          user={{ id: selectedUser.id, name: selectedUser.name }}
+          onBlocked={() => {
+            setDialogOpen(false);
+            setSelectedUser(null);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,13 +1,21 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Logo from '../components/Logo';
-import { ArrowLeft, MessageCircle, Loader } from 'lucide-react';
+import { ArrowLeft, MessageCircle, Loader, MoreVertical, UserX } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { getUserMatches, markMessagesAsRead } from '../lib/api';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import UnmatchDialog from '@/components/UnmatchDialog';
+import { MatchSummary } from '@/types/database';
 
 const MatchesSkeleton = () => (
   <>
@@ -25,6 +33,7 @@ const MatchesSkeleton = () => (
 
 const Matches: React.FC = () => {
   const navigate = useNavigate();
+  const [unmatchTarget, setUnmatchTarget] = useState<MatchSummary | null>(null);
 
   // Fetch matches data with better error handling and stale time
   const { data: matches, isLoading, error, refetch } = useQuery({
@@ -110,18 +119,20 @@ const Matches: React.FC = () => {
                     loading="lazy"
                   />
                   {match.unread && (
-                    <div className="absolute top-0 right-0 w-3 h-3 bg-princeton-orange rounded-full border border-black"></div>
+                    <div className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-princeton-orange rounded-full border border-black flex items-center justify-center text-[10px] text-black font-bold">
+                      {match.unreadCount > 9 ? '9+' : match.unreadCount}
+                    </div>
                   )}
                 </div>
                 
-                <div className="ml-4 flex-1">
+                <div className="ml-4 flex-1 min-w-0">
                   <div className="flex justify-between">
                     <h3 className="font-bold text-princeton-white">
                       {match.name}
                     </h3>
                     <span className="text-xs text-princeton-white/60">{match.lastMessageTime || '--'}</span>
                   </div>
-                  <p className={`text-sm ${match.unread ? 'text-princeton-white font-medium' : 'text-princeton-white/70'}`}>
+                  <p className={`text-sm truncate ${match.unread ? 'text-princeton-white font-medium' : 'text-princeton-white/70'}`}>
                     {match.lastMessage || 'Just matched!'}
                   </p>
                 </div>
@@ -129,6 +140,24 @@ const Matches: React.FC = () => {
                 <button className="ml-2 text-princeton-orange">
                   <MessageCircle size={20} />
                 </button>
+                
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <button
+                      onClick={(e) => e.stopPropagation()}
+                      className="ml-2 text-princeton-white/60 hover:text-princeton-orange"
+                      aria-label={`More options for ${match.name}`}
+                    >
+                      <MoreVertical size={20} />
+                    </button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenuItem onSelect={() => setUnmatchTarget(match)} className="text-red-500">
+                      <UserX size={14} className="mr-2" />
+                      Unmatch
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             )) : (
               <div className="text-center py-10">
@@ -150,6 +179,15 @@ const Matches: React.FC = () => {
           </div>
         )}
       </main>
+      
+      {unmatchTarget && (
+        <UnmatchDialog
+          open={!!unmatchTarget}
+          onOpenChange={(open) => !open && setUnmatchTarget(null)}
+          matchId={unmatchTarget.matchId}
+          partner={{ authId: unmatchTarget.userId, name: unmatchTarget.name }}
+        />
+      )}
     </div>
   );
 };
@@ -1,19 +1,56 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { ArrowLeft, Flag, User, Send } from 'lucide-react';
+import { ArrowLeft, Flag, User, Send, ImagePlus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { submitReport, getMyReports, MAX_REPORT_SCREENSHOTS } from '@/lib/api';
+import { validateImageFile } from '@/lib/image';
+import { ALLOWED_IMAGE_TYPES } from '@/lib/supabase';
+import { ReportStatus, ReportType } from '@/types/database';
+
+// Context passed in router state when reporting from a profile, chat or the unmatch flow
+interface ReportLocationState {
+  from?: string;
+  reportedUser?: { authId: string; name: string };
+  matchId?: string;
+  messageId?: string;
+}
+
+const STATUS_LABELS: Record<ReportStatus, { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-blue-500/20 text-blue-300' },
+  reviewing: { label: 'In review', className: 'bg-yellow-500/20 text-yellow-300' },
+  actioned: { label: 'Action taken', className: 'bg-green-500/20 text-green-300' },
+  dismissed: { label: 'Closed', className: 'bg-white/10 text-princeton-white/70' }
+};
 
 const Report: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [reportType, setReportType] = useState<string>('');
   const [reportDetails, setReportDetails] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [screenshots, setScreenshots] = useState<File[]>([]);
+  
+  // Set when coming from a profile, a chat message or the unmatch flow
+  const reportState: ReportLocationState = location.state || {};
+  const reportedUser = reportState.reportedUser;
+  
+  const screenshotPreviews = useMemo(() => screenshots.map(file => URL.createObjectURL(file)), [screenshots]);
+  useEffect(() => () => screenshotPreviews.forEach(url => URL.revokeObjectURL(url)), [screenshotPreviews]);
+  
+  const { data: myReports } = useQuery({
+    queryKey: ['my-reports'],
+    queryFn: getMyReports
+  });
   
   const handleBack = () => {
     // If we have a state with a previous path, use that
@@ -25,6 +62,25 @@ const Report: React.FC = () => {
     }
   };
 
+  const handleScreenshotsSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    
+    for (const file of files) {
+      const validationError = validateImageFile(file);
+      if (validationError) {
+        toast.error(validationError);
+        return;
+      }
+    }
+    
+    const next = [...screenshots, ...files];
+    if (next.length > MAX_REPORT_SCREENSHOTS) {
+      toast.error(`You can attach up to ${MAX_REPORT_SCREENSHOTS} screenshots`);
+    }
+    setScreenshots(next.slice(0, MAX_REPORT_SCREENSHOTS));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -41,12 +97,22 @@ const Report: React.FC = () => {
     setIsSubmitting(true);
     
     try {
-      // Here you would call your API to submit the report
-      // For now, we'll just simulate a successful submission
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await submitReport({
+        type: reportType as ReportType,
+        details: reportDetails,
+        reportedUserAuthId: reportedUser?.authId,
+        matchId: reportState.matchId,
+        messageId: reportState.messageId,
+        screenshots
+      });
       
-      toast.success('Report submitted successfully');
-      navigate('/settings');
+      queryClient.invalidateQueries({ queryKey: ['my-reports'] });
+      toast.success("Report submitted. We'll review it and update its status here.");
+      
+      setReportType('');
+      setReportDetails('');
+      setScreenshots([]);
+      handleBack();
     } catch (error) {
       console.error('Error submitting report:', error);
       toast.error('Failed to submit report');
@@ -75,7 +141,9 @@ const Report: React.FC = () => {
             <h2 className="text-xl font-bold text-princeton-white">What's going on?</h2>
           </div>
           <p className="text-princeton-white/80 mb-4">
-            Please let us know what issue you're experiencing so we can address it quickly.
+            {reportedUser
+              ? `Tell us what happened with ${reportedUser.name}. Your report is confidential.`
+              : "Please let us know what issue you're experiencing so we can address it quickly."}
           </p>
         </div>
 
@@ -119,6 +187,51 @@ const Report: React.FC = () => {
             />
           </div>
 
+          <div className="profile-card p-6">
+            <h3 className="text-lg font-semibold text-princeton-white mb-1">Screenshots</h3>
+            <p className="text-sm text-princeton-white/60 mb-4">Optional, up to {MAX_REPORT_SCREENSHOTS}. Only our safety team can see them.</p>
+            
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ALLOWED_IMAGE_TYPES.join(',')}
+              multiple
+              onChange={handleScreenshotsSelected}
+              className="hidden"
+            />
+            
+            <div className="flex flex-wrap gap-3">
+              {screenshots.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="relative w-20 h-20">
+                  <img
+                    src={screenshotPreviews[index]}
+                    alt={`Screenshot ${index + 1}`}
+                    className="w-full h-full object-cover rounded-lg"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setScreenshots(screenshots.filter((_, i) => i !== index))}
+                    className="absolute -top-2 -right-2 bg-black rounded-full p-1 text-princeton-white"
+                    aria-label={`Remove screenshot ${index + 1}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              
+              {screenshots.length < MAX_REPORT_SCREENSHOTS && (
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-20 h-20 rounded-lg border border-dashed border-princeton-orange/50 flex items-center justify-center text-princeton-orange"
+                  aria-label="Add screenshot"
+                >
+                  <ImagePlus size={24} />
+                </button>
+              )}
+            </div>
+          </div>
+
           <Button 
             type="submit"
             className="w-full bg-princeton-orange hover:bg-princeton-orange/90 text-black"
@@ -128,6 +241,31 @@ const Report: React.FC = () => {
             <Send size={16} className="ml-2" />
           </Button>
         </form>
+        
+        {/* Reports filed earlier and where they stand */}
+        {myReports && myReports.length > 0 && (
+          <div className="profile-card p-6 mt-6">
+            <h3 className="text-lg font-semibold text-princeton-white mb-4">Your Reports</h3>
+            <div className="space-y-3">
+              {myReports.map(report => (
+                <div key={report.id} className="flex items-center justify-between py-2 border-b border-white/5 last:border-0">
+                  <div className="min-w-0">
+                    <div className="text-princeton-white text-sm truncate">
+                      {report.reported_user ? `About ${report.reported_user.name}` : 'General report'}
+                      <span className="text-princeton-white/60"> · {report.type}</span>
+                    </div>
+                    <div className="text-xs text-princeton-white/50">
+                      {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                    </div>
+                  </div>
+                  <Badge className={STATUS_LABELS[report.status].className}>
+                    {STATUS_LABELS[report.status].label}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </main>
     </div>
   );
@@ -3,14 +3,15 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { 
   ArrowLeft, Bell, Lock, Eye, HelpCircle, MessageCircle, 
   MapPin, Flag, Moon, Heart, LogOut, User, Shield, 
-  Smartphone, Globe, Volume2, Zap
+  Smartphone, Globe, Volume2, Zap, Ban
 } from 'lucide-react';
 import Logo from '../components/Logo';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { useAuth } from '../contexts/AuthContext';
-import { updateUserSettings, deleteAccount } from '../lib/api';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { updateUserSettings, deleteAccount, getBlockedUsers, unblockUser } from '../lib/api';
 import { 
   Dialog, DialogContent, DialogDescription, DialogFooter, 
   DialogHeader, DialogTitle, DialogTrigger 
@@ -37,6 +38,12 @@ const Settings: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  
+  const { data: blockedUsers, isLoading: blockedUsersLoading } = useQuery({
+    queryKey: ['blocked-users'],
+    queryFn: getBlockedUsers
+  });
   
   // Determine where the back button should go
   const handleBack = () => {
@@ -49,6 +56,17 @@ const Settings: React.FC = () => {
     }
   };
 
+  const handleUnblock = async (blockedUserId: string, name: string) => {
+    try {
+      await unblockUser(blockedUserId);
+      queryClient.invalidateQueries({ queryKey: ['blocked-users'] });
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+      toast.success(`${name} has been unblocked`);
+    } catch (error) {
+      toast.error('Failed to unblock user');
+    }
+  };
+
   // Save settings changes
   const handleSettingChange = async (setting: string, value: boolean | string) => {
     try {
@@ -386,6 +404,46 @@ const Settings: React.FC = () => {
               </AccordionContent>
             </AccordionItem>
             
+            {/* Blocked Users */}
+            <AccordionItem value="blocked" className="rounded-xl overflow-hidden bg-secondary/30 border border-white/5">
+              <AccordionTrigger className="px-4 py-2 hover:bg-white/5">
+                <div className="flex items-center">
+                  <Ban size={20} className="text-princeton-orange mr-3" />
+                  <span className="font-medium">Blocked Users</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="bg-secondary/20">
+                <div className="space-y-2 p-4">
+                  {blockedUsersLoading ? (
+                    <div className="text-princeton-white/60 text-sm">Loading...</div>
+                  ) : blockedUsers && blockedUsers.length > 0 ? (
+                    blockedUsers.map(blockedUser => (
+                      <div key={blockedUser.id} className="flex items-center justify-between py-2">
+                        <div className="flex items-center">
+                          <img
+                            src={blockedUser.photo_urls?.[0] || '/placeholder.svg'}
+                            alt={blockedUser.name}
+                            className="w-8 h-8 rounded-full object-cover mr-3"
+                          />
+                          <span className="text-princeton-white">{blockedUser.name}</span>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUnblock(blockedUser.id, blockedUser.name)}
+                          className="border-princeton-orange/50 text-princeton-orange hover:bg-princeton-orange/10"
+                        >
+                          Unblock
+                        </Button>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="text-princeton-white/60 text-sm">You haven't blocked anyone</div>
+                  )}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+            
             {/* App Preferences */}
             <AccordionItem value="preferences" className="rounded-xl overflow-hidden bg-secondary/30 border border-white/5">
               <AccordionTrigger className="px-4 py-2 hover:bg-white/5">
@@ -456,6 +514,19 @@ const Settings: React.FC = () => {
                     </div>
                     <ArrowLeft size={18} className="text-princeton-white/60 transform rotate-180" />
                   </div>
+                  
+                  {user?.moderation?.staff_role && (
+                    <div 
+                      className="flex items-center justify-between py-2 cursor-pointer hover:bg-white/5 rounded-lg px-2"
+                      onClick={() => navigate('/admin/reports')}
+                    >
+                      <div className="flex items-center">
+                        <Shield size={18} className="text-princeton-orange mr-3" />
+                        <span className="text-princeton-white">Moderator Console</span>
+                      </div>
+                      <ArrowLeft size={18} className="text-princeton-white/60 transform rotate-180" />
+                    </div>
+                  )}
                 </div>
               </AccordionContent>
             </AccordionItem>
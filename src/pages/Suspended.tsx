@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ShieldAlert, Send, LogOut } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import Logo from '@/components/Logo';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/contexts/AuthContext';
+import { getMyAppeals, submitAppeal } from '@/lib/api';
+
+/**
+ * Shown instead of the app while the user is suspended or banned: explains why and lets them appeal
+ */
+const Suspended: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { accountRestriction, loading, signOut } = useAuth();
+  const [appealMessage, setAppealMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: appeals } = useQuery({
+    queryKey: ['my-appeals'],
+    queryFn: getMyAppeals,
+    enabled: !!accountRestriction
+  });
+
+  // Nothing to explain once the suspension is over (or was lifted)
+  useEffect(() => {
+    if (!loading && !accountRestriction) {
+      navigate('/dashboard', { replace: true });
+    }
+  }, [loading, accountRestriction, navigate]);
+
+  if (!accountRestriction) return null;
+
+  const pendingAppeal = appeals?.find(appeal => appeal.status === 'pending');
+  const latestResolved = appeals?.find(appeal => appeal.status !== 'pending');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (appealMessage.trim().length < 20) {
+      toast.error('Please explain a little more (at least 20 characters)');
+      return;
+    }
+    
+    setIsSubmitting(true);
+    try {
+      await submitAppeal(appealMessage.trim());
+      queryClient.invalidateQueries({ queryKey: ['my-appeals'] });
+      setAppealMessage('');
+      toast.success("Appeal sent. We'll get back to you soon.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send appeal');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-black to-[#121212]">
+      <header className="container mx-auto px-4 py-6 flex justify-between items-center">
+        <Logo />
+        <button 
+          onClick={signOut}
+          className="flex items-center text-princeton-white/70 hover:text-princeton-orange transition-colors"
+        >
+          <LogOut size={18} className="mr-2" />
+          Sign out
+        </button>
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6 max-w-xl">
+        <div className="profile-card p-6 mb-6">
+          <div className="flex items-center mb-4">
+            <ShieldAlert size={24} className="text-princeton-orange mr-3" />
+            <h1 className="text-xl font-bold text-princeton-white">
+              {accountRestriction.status === 'banned' ? 'Your account has been banned' : 'Your account is suspended'}
+            </h1>
+          </div>
+          
+          <p className="text-princeton-white/80 mb-4">
+            {accountRestriction.status === 'banned'
+              ? 'You can no longer use Me&Union.'
+              : `You can use Me&Union again on ${format(new Date(accountRestriction.until as string), 'MMMM d, yyyy \'at\' h:mm a')}.`}
+            {' '}While your account is restricted, other people can't see you and you can't send messages.
+          </p>
+          
+          {accountRestriction.reason && (
+            <div className="border-l-2 border-princeton-orange pl-3 text-sm text-princeton-white/80">
+              <div className="text-xs text-princeton-white/50 mb-1">Reason</div>
+              {accountRestriction.reason}
+            </div>
+          )}
+        </div>
+
+        {pendingAppeal ? (
+          <div className="profile-card p-6">
+            <h2 className="text-lg font-semibold text-princeton-white mb-2">Appeal under review</h2>
+            <p className="text-princeton-white/70 text-sm">
+              You appealed on {format(new Date(pendingAppeal.created_at), 'MMMM d')}. A moderator will review it soon.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="profile-card p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-princeton-white">Think we got it wrong?</h2>
+            
+            {latestResolved?.status === 'upheld' && (
+              <p className="text-sm text-princeton-white/70">
+                Your last appeal was reviewed and the decision was kept
+                {latestResolved.resolution_note ? `: ${latestResolved.resolution_note}` : '.'}
+              </p>
+            )}
+            
+            <Textarea 
+              placeholder="Tell us what happened and why you think this should be reconsidered..." 
+              value={appealMessage}
+              onChange={(e) => setAppealMessage(e.target.value)}
+              className="bg-secondary border-princeton-orange/30 text-princeton-white placeholder:text-princeton-white/50 focus:border-princeton-orange min-h-[150px]"
+            />
+            
+            <Button 
+              type="submit"
+              className="w-full bg-princeton-orange hover:bg-princeton-orange/90 text-black"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? 'Sending...' : 'Send Appeal'}
+              <Send size={16} className="ml-2" />
+            </Button>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Suspended;
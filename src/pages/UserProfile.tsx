@@ -4,20 +4,24 @@ import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { getCurrentUser, getUserById, updateUserProfile, uploadUserPhoto, deleteUserPhoto, updateUserInterests } from '../lib/api';
-import { ArrowLeft, Camera, Trash2, Settings, Edit, Save, X, Heart, Calendar, School, MapPin, Sparkles, BookOpen } from 'lucide-react';
+import { ArrowLeft, Camera, Trash2, Settings, Edit, Save, X, Heart, Calendar, School, MapPin, Sparkles, BookOpen, Ban, Flag } from 'lucide-react';
 import Logo from '../components/Logo';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import InterestSelector from '@/components/InterestSelector';
-import { UserVibe } from '@/types/database';
+import BlockUserDialog from '@/components/BlockUserDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { GenderPreference, UserVibe } from '@/types/database';
+import { GENDER_PREFERENCE_OPTIONS, toggleGenderPreference } from '@/lib/gender-preference';
 
 interface UserProfileProps {
   viewUserId?: string;
@@ -26,6 +30,8 @@ interface UserProfileProps {
 const UserProfile: React.FC<UserProfileProps> = ({ viewUserId }) => {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { user: authUser } = useAuth();
+  const [isBlockOpen, setIsBlockOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('basic');
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
@@ -38,7 +44,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ viewUserId }) => {
   const [major, setMajor] = useState('');
   const [classYear, setClassYear] = useState('');
   const [gender, setGender] = useState<string>('');
-  const [genderPreference, setGenderPreference] = useState<string>('');
+  const [genderPreference, setGenderPreference] = useState<GenderPreference[]>(['everyone']);
   const [vibe, setVibe] = useState<string>('');
   const [intention, setIntention] = useState<string>('casual');
   const [photos, setPhotos] = useState<string[]>([]);
@@ -63,7 +69,7 @@ const UserProfile: React.FC<UserProfileProps> = ({ viewUserId }) => {
       setMajor(user.major || '');
       setClassYear(user.class_year || '');
       setGender(user.gender || '');
-      setGenderPreference(user.gender_preference || '');
+      setGenderPreference(user.gender_preference?.length ? user.gender_preference : ['everyone']);
       setVibe(user.vibe || '');
       setIntention(user.intention || 'casual');
       setPhotos(user.photo_urls || []);
@@ -250,6 +256,27 @@ const UserProfile: React.FC<UserProfileProps> = ({ viewUserId }) => {
     );
   }
   
+  // Blocked (or missing) profiles aren't shown
+  if (isViewingOtherUser && !user) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-black to-[#121212] p-4">
+        <header className="container mx-auto px-4 py-4 flex items-center">
+          <button 
+            onClick={() => navigate(-1)}
+            className="text-princeton-white hover:text-princeton-orange transition-colors mr-4"
+          >
+            <ArrowLeft size={24} />
+          </button>
+          <Logo />
+        </header>
+        
+        <main className="container mx-auto px-4 py-6 max-w-2xl">
+          <div className="text-center py-10 text-princeton-white/70">This profile isn't available</div>
+        </main>
+      </div>
+    );
+  }
+  
   // View mode for other users' profiles
   if (isViewingOtherUser) {
     return (
@@ -402,6 +429,35 @@ const UserProfile: React.FC<UserProfileProps> = ({ viewUserId }) => {
               </div>
             </div>
           </div>
+          
+          {user && authUser && user.id !== authUser.id && (
+            <>
+              <Button
+                variant="ghost"
+                className="w-full text-princeton-white/70 hover:text-princeton-orange"
+                onClick={() => navigate('/report', {
+                  state: { from: `/profile/${user.auth_id}`, reportedUser: { authId: user.auth_id, name: user.name } }
+                })}
+              >
+                <Flag className="mr-2 h-4 w-4" />
+                Report {user.name}
+              </Button>
+              <Button
+                variant="ghost"
+                className="w-full text-red-400 hover:text-red-500 hover:bg-red-500/10"
+                onClick={() => setIsBlockOpen(true)}
+              >
+                <Ban className="mr-2 h-4 w-4" />
+                Block {user.name}
+              </Button>
+              <BlockUserDialog
+                open={isBlockOpen}
+                onOpenChange={setIsBlockOpen}
+                user={{ id: user.id, name: user.name }}
+                onBlocked={() => navigate('/matches')}
+              />
+            </>
+          )}
         </main>
       </div>
     );
@@ -697,20 +753,18 @@ const UserProfile: React.FC<UserProfileProps> = ({ viewUserId }) => {
                   
                   <div className="space-y-2">
                     <Label className="text-princeton-white">Interested In</Label>
-                    <RadioGroup value={genderPreference} onValueChange={setGenderPreference} className="flex flex-col space-y-2">
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="male" id="pref-male" />
-                        <Label htmlFor="pref-male" className="text-princeton-white">Men</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="female" id="pref-female" />
-                        <Label htmlFor="pref-female" className="text-princeton-white">Women</Label>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <RadioGroupItem value="everyone" id="pref-everyone" />
-                        <Label htmlFor="pref-everyone" className="text-princeton-white">Everyone</Label>
-                      </div>
-                    </RadioGroup>
+                    <div className="flex flex-col space-y-2">
+                      {GENDER_PREFERENCE_OPTIONS.map(option => (
+                        <div key={option.value} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`pref-${option.value}`}
+                            checked={genderPreference.includes(option.value)}
+                            onCheckedChange={() => setGenderPreference(prev => toggleGenderPreference(prev, option.value))}
+                          />
+                          <Label htmlFor={`pref-${option.value}`} className="text-princeton-white">{option.label}</Label>
+                        </div>
+                      ))}
+                    </div>
                   </div>
                   
                   <div className="space-y-2">
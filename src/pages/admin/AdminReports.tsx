@@ -0,0 +1,447 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Flag, ShieldAlert, User } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import Logo from '@/components/Logo';
+import NotFound from '@/pages/NotFound';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getReportsForReview,
+  getReportMessages,
+  getReportScreenshotUrl,
+  getModerationHistory,
+  updateReportStatus,
+  moderateUser,
+  getPendingAppeals,
+  resolveAppeal
+} from '@/lib/api';
+import { Appeal, ReportStatus, ReportWithUsers } from '@/types/database';
+
+// Report queues, plus the queue of appeals against suspensions and bans
+type ConsoleTab = ReportStatus | 'appeals';
+
+const STATUS_TABS: { value: ConsoleTab; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'reviewing', label: 'Reviewing' },
+  { value: 'actioned', label: 'Actioned' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: 'appeals', label: 'Appeals' }
+];
+
+const ACTION_LABELS: Record<string, string> = {
+  review: 'Started review',
+  dismiss: 'Dismissed report',
+  warn: 'Warned',
+  suspend: 'Suspended',
+  ban: 'Banned',
+  remove_photos: 'Removed photos',
+  reinstate: 'Reinstated after appeal',
+  uphold: 'Upheld on appeal'
+};
+
+const SUSPENSION_OPTIONS = ['1', '3', '7', '30'];
+
+const timeAgo = (timestamp: string) => formatDistanceToNow(new Date(timestamp), { addSuffix: true });
+
+// Signed screenshot thumbnail; the bucket is private
+const ReportScreenshot: React.FC<{ path: string }> = ({ path }) => {
+  const { data: url } = useQuery({
+    queryKey: ['report-screenshot', path],
+    queryFn: () => getReportScreenshotUrl(path),
+    staleTime: 50 * 60 * 1000
+  });
+
+  if (!url) return <Skeleton className="w-24 h-24 rounded-lg" />;
+
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img src={url} alt="Report screenshot" className="w-24 h-24 object-cover rounded-lg" />
+    </a>
+  );
+};
+
+const ReportDetail: React.FC<{ report: ReportWithUsers; onDone: () => void }> = ({ report, onDone }) => {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState('');
+  const [suspendDays, setSuspendDays] = useState('7');
+  const [isWorking, setIsWorking] = useState(false);
+  const reportedUser = report.reported_user;
+
+  const { data: excerpt, isLoading: excerptLoading } = useQuery({
+    queryKey: ['report-messages', report.id],
+    queryFn: () => getReportMessages(report.id),
+    enabled: !!report.match_id
+  });
+
+  const { data: history } = useQuery({
+    queryKey: ['moderation-history', reportedUser?.id],
+    queryFn: () => getModerationHistory(reportedUser?.id as string),
+    enabled: !!reportedUser
+  });
+
+  // Runs a moderation step, then refreshes the queue and the user's history
+  const run = async (label: string, action: () => Promise<void>, closesReport: boolean = true) => {
+    setIsWorking(true);
+    try {
+      await action();
+      toast.success(label);
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['admin-reports'] });
+      queryClient.invalidateQueries({ queryKey: ['moderation-history', reportedUser?.id] });
+      if (closesReport) onDone();
+    } catch (error) {
+      toast.error('Action failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const requireReason = () => {
+    if (reason.trim().length < 5) {
+      toast.error('Add a short reason for the audit log');
+      return false;
+    }
+    return true;
+  };
+
+  const handleModerate = (action: 'warn' | 'suspend' | 'ban' | 'remove_photos', label: string) => {
+    if (!reportedUser || !requireReason()) return;
+
+    run(label, () => moderateUser({
+      targetUserId: reportedUser.id,
+      action,
+      reason: reason.trim(),
+      reportId: report.id,
+      suspendDays: action === 'suspend' ? Number(suspendDays) : undefined
+    }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="profile-card p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-bold text-princeton-white capitalize">{report.type}</h2>
+          <span className="text-xs text-princeton-white/60">{timeAgo(report.created_at)}</span>
+        </div>
+        <p className="text-sm text-princeton-white/60 mb-4">
+          Reported by {report.reporter?.name || 'a deleted user'}
+        </p>
+        <p className="text-princeton-white whitespace-pre-wrap">{report.details}</p>
+
+        {report.message_snapshot && (
+          <div className="mt-4 border-l-2 border-princeton-orange pl-3 text-sm text-princeton-white/80">
+            <div className="text-xs text-princeton-white/50 mb-1">Reported message</div>
+            {report.message_snapshot}
+          </div>
+        )}
+
+        {report.screenshot_paths.length > 0 && (
+          <div className="flex flex-wrap gap-3 mt-4">
+            {report.screenshot_paths.map(path => <ReportScreenshot key={path} path={path} />)}
+          </div>
+        )}
+      </div>
+
+      {reportedUser && (
+        <div className="profile-card p-6">
+          <h3 className="text-sm font-semibold text-princeton-white/70 mb-3">Reported profile</h3>
+          <div className="flex items-center mb-3">
+            <User size={18} className="text-princeton-orange mr-2" />
+            <span className="font-bold text-princeton-white">{reportedUser.name}</span>
+            {reportedUser.class_year && <span className="text-princeton-white/60 ml-2">'{reportedUser.class_year.slice(-2)}</span>}
+            {reportedUser.moderation && reportedUser.moderation.account_status !== 'active' && (
+              <Badge className="ml-2 bg-red-500/20 text-red-300 capitalize">{reportedUser.moderation.account_status}</Badge>
+            )}
+          </div>
+          {reportedUser.bio && <p className="text-sm text-princeton-white/80 mb-3">{reportedUser.bio}</p>}
+          {reportedUser.photo_urls && reportedUser.photo_urls.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {reportedUser.photo_urls.map(url => (
+                <img key={url} src={url} alt={reportedUser.name} className="w-20 h-24 object-cover rounded-lg" />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {report.match_id && (
+        <div className="profile-card p-6">
+          <h3 className="text-sm font-semibold text-princeton-white/70 mb-3">Conversation excerpt</h3>
+          {excerptLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : excerpt && excerpt.length > 0 ? (
+            <div className="space-y-2">
+              {excerpt.map(message => (
+                <div
+                  key={message.id}
+                  className={`text-sm rounded-lg px-3 py-2 ${
+                    message.id === report.message_id ? 'bg-princeton-orange/20 border border-princeton-orange' : 'bg-secondary'
+                  }`}
+                >
+                  <span className="font-semibold text-princeton-white">
+                    {message.sender_id === reportedUser?.id ? reportedUser.name : report.reporter?.name || 'Reporter'}:
+                  </span>{' '}
+                  <span className="text-princeton-white/80">
+                    {message.deleted_at ? <em>unsent</em> : message.message || '📷 Photo'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-princeton-white/60">The conversation is no longer available.</p>
+          )}
+        </div>
+      )}
+
+      {(report.status === 'open' || report.status === 'reviewing') && (
+        <div className="profile-card p-6 space-y-4">
+          <h3 className="text-sm font-semibold text-princeton-white/70">Take action</h3>
+          <Textarea
+            placeholder="Reason (recorded in the audit log and shown to the user for warnings and suspensions)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="bg-secondary border-princeton-orange/30 text-princeton-white placeholder:text-princeton-white/50"
+          />
+
+          <div className="flex flex-wrap gap-2">
+            {report.status === 'open' && (
+              <Button
+                variant="outline"
+                disabled={isWorking}
+                onClick={() => run('Marked as reviewing', () => updateReportStatus(report.id, 'reviewing'), false)}
+              >
+                Start review
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              disabled={isWorking}
+              onClick={() => run('Report dismissed', () => updateReportStatus(report.id, 'dismissed', reason.trim()))}
+            >
+              Dismiss
+            </Button>
+          </div>
+
+          {reportedUser && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button disabled={isWorking} onClick={() => handleModerate('warn', 'User warned')} className="bg-yellow-500 hover:bg-yellow-600 text-black">
+                Warn
+              </Button>
+              <div className="flex items-center gap-2">
+                <Select value={suspendDays} onValueChange={setSuspendDays}>
+                  <SelectTrigger className="w-24 bg-secondary border-princeton-orange/30 text-princeton-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUSPENSION_OPTIONS.map(days => (
+                      <SelectItem key={days} value={days}>{days} {days === '1' ? 'day' : 'days'}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button disabled={isWorking} onClick={() => handleModerate('suspend', 'User suspended')} className="bg-orange-600 hover:bg-orange-700 text-white">
+                  Suspend
+                </Button>
+              </div>
+              <Button disabled={isWorking} onClick={() => handleModerate('remove_photos', 'Photos removed')} variant="outline">
+                Remove photos
+              </Button>
+              <Button disabled={isWorking} onClick={() => handleModerate('ban', 'User banned')} className="bg-red-500 hover:bg-red-600 text-white">
+                Ban
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {history && history.length > 0 && (
+        <div className="profile-card p-6">
+          <h3 className="text-sm font-semibold text-princeton-white/70 mb-3">Moderation history</h3>
+          <div className="space-y-2">
+            {history.map(entry => (
+              <div key={entry.id} className="text-sm">
+                <span className="text-princeton-white">{ACTION_LABELS[entry.action] || entry.action}</span>
+                <span className="text-princeton-white/60"> by {entry.moderator?.name || 'a moderator'} {timeAgo(entry.created_at)}</span>
+                {entry.reason && <div className="text-xs text-princeton-white/50">{entry.reason}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AppealCard: React.FC<{ appeal: Appeal }> = ({ appeal }) => {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleResolve = async (overturn: boolean) => {
+    if (note.trim().length < 5) {
+      toast.error('Add a short note for the user and the audit log');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await resolveAppeal(appeal.id, overturn, note.trim());
+      toast.success(overturn ? 'Account reinstated' : 'Decision upheld');
+      queryClient.invalidateQueries({ queryKey: ['admin-appeals'] });
+    } catch (error) {
+      toast.error('Action failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="profile-card p-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-princeton-white">{appeal.user?.name || 'Unknown user'}</span>
+        <span className="text-xs text-princeton-white/60">{timeAgo(appeal.created_at)}</span>
+      </div>
+      {appeal.user && (
+        <div className="text-sm text-princeton-white/60">
+          <span className="capitalize">{appeal.user.moderation?.account_status ?? 'active'}</span>
+          {appeal.user.moderation?.suspended_until && ` until ${new Date(appeal.user.moderation.suspended_until).toLocaleDateString()}`}
+          {appeal.user.moderation?.status_reason && ` · ${appeal.user.moderation.status_reason}`}
+        </div>
+      )}
+      <p className="text-princeton-white whitespace-pre-wrap">{appeal.message}</p>
+      <Textarea
+        placeholder="Note (shown to the user if the decision is upheld)"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        className="bg-secondary border-princeton-orange/30 text-princeton-white placeholder:text-princeton-white/50"
+      />
+      <div className="flex gap-2">
+        <Button disabled={isWorking} onClick={() => handleResolve(true)} className="bg-green-600 hover:bg-green-700 text-white">
+          Reinstate
+        </Button>
+        <Button disabled={isWorking} onClick={() => handleResolve(false)} variant="outline">
+          Uphold
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const AppealsQueue: React.FC = () => {
+  const { data: appeals, isLoading, error } = useQuery({
+    queryKey: ['admin-appeals'],
+    queryFn: getPendingAppeals
+  });
+
+  if (isLoading) return <Skeleton className="h-40 w-full rounded-lg" />;
+  if (error) return <div className="text-red-500">Failed to load appeals</div>;
+  if (!appeals || appeals.length === 0) return <div className="text-princeton-white/60">No appeals waiting.</div>;
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      {appeals.map(appeal => <AppealCard key={appeal.id} appeal={appeal} />)}
+    </div>
+  );
+};
+
+/**
+ * Moderator console: triage reports and act on reported users. Staff only.
+ */
+const AdminReports: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+  const [tab, setTab] = useState<ConsoleTab>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const isStaff = !!user?.moderation?.staff_role;
+
+  const { data: reports, isLoading, error } = useQuery({
+    queryKey: ['admin-reports', tab],
+    queryFn: () => getReportsForReview(tab as ReportStatus),
+    enabled: isStaff && tab !== 'appeals'
+  });
+
+  if (loading) return null;
+
+  // Don't reveal the console exists
+  if (!isStaff) return <NotFound />;
+
+  const selected = reports?.find(report => report.id === selectedId) || null;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gradient-to-b from-black to-[#121212]">
+      <header className="container mx-auto px-4 py-4 flex items-center">
+        <button 
+          onClick={() => navigate('/settings')}
+          className="text-princeton-white hover:text-princeton-orange transition-colors mr-4"
+        >
+          <ArrowLeft size={24} />
+        </button>
+        <Logo />
+      </header>
+
+      <main className="flex-1 container mx-auto px-4 py-6">
+        <div className="flex items-center mb-6">
+          <ShieldAlert size={24} className="text-princeton-orange mr-3" />
+          <h1 className="text-2xl font-bold text-princeton-white">Reports</h1>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => { setTab(value as ConsoleTab); setSelectedId(null); }}>
+          <TabsList className="mb-6">
+            {STATUS_TABS.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {tab === 'appeals' ? <AppealsQueue /> : (
+        <div className="grid gap-6 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+          <div className="space-y-3">
+            {isLoading && [1, 2, 3].map(index => <Skeleton key={index} className="h-20 w-full rounded-lg" />)}
+            {error && <div className="text-red-500">Failed to load reports</div>}
+            {reports && reports.length === 0 && (
+              <div className="text-princeton-white/60">Nothing here.</div>
+            )}
+            {reports?.map(report => (
+              <button
+                key={report.id}
+                onClick={() => setSelectedId(report.id)}
+                className={`w-full text-left p-3 rounded-lg bg-secondary border transition-all ${
+                  report.id === selectedId ? 'border-princeton-orange' : 'border-princeton-orange/20 hover:border-princeton-orange/50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="flex items-center font-semibold text-princeton-white capitalize">
+                    <Flag size={14} className="text-princeton-orange mr-2" />
+                    {report.type}
+                  </span>
+                  <span className="text-xs text-princeton-white/60">{timeAgo(report.created_at)}</span>
+                </div>
+                <div className="text-sm text-princeton-white/70 truncate mt-1">
+                  {report.reported_user ? `About ${report.reported_user.name}` : 'General report'} · {report.details}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div>
+            {selected ? (
+              <ReportDetail key={selected.id} report={selected} onDone={() => setSelectedId(null)} />
+            ) : (
+              <div className="text-princeton-white/60">Select a report to review it.</div>
+            )}
+          </div>
+        </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminReports;
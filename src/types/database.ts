@@ -1,7 +1,12 @@
 export type UserGender = 'male' | 'female' | 'non-binary' | 'other';
-export type GenderPreference = 'male' | 'female' | 'everyone';
+// One option of the multi-select "show me" preference
+export type GenderPreference = UserGender | 'everyone';
 export type UserVibe = 'Looking to Party' | 'Looking to Catch Up' | 'Down to Roam' | 'Looking for a Hook-Up' | '🌙 Let\'s Just See Where the Night Takes Us' | '💑 Looking for Something Deeper';
 export type UserIntention = 'casual' | 'serious';
+export type UserRole = 'current_student' | 'recent_grad' | 'class_of_2025' | 'alum';
+export type SwipeDirection = 'left' | 'right' | 'super';
+export type StaffRole = 'moderator' | 'admin';
+export type AccountStatus = 'active' | 'suspended' | 'banned';
 
 export interface User {
   id: string;
@@ -12,15 +17,14 @@ export interface User {
   vibe?: UserVibe;
   intention?: UserIntention;
   gender?: UserGender;
-  gender_preference?: GenderPreference;
+  gender_preference?: GenderPreference[];
   bio?: string;
   major?: string;
-  location?: string;
-  building?: string;
-  latitude?: number;
-  longitude?: number;
   photo_urls?: string[];
   profile_complete?: boolean;
+  last_active_at?: string | null;
+  // Only readable by the user themselves and staff, so it's missing on everyone else
+  moderation?: AccountModeration | null;
   created_at?: string;
   updated_at?: string;
   settings?: {
@@ -34,10 +38,23 @@ export interface User {
     soundEffects?: boolean;
     language?: string;
     dataUsage?: string;
+    discoveryFilters?: DiscoveryFilters;
+    // Check in to hot zones automatically when inside their geofence
+    autoCheckIn?: boolean;
     [key: string]: any;
   };
 }
 
+// Deck filters saved in settings and applied by get_discovery_candidates. Unset or empty means no limit.
+export interface DiscoveryFilters {
+  classYearMin?: number | null;
+  classYearMax?: number | null;
+  roles?: UserRole[];
+  maxDistanceKm?: number | null;
+  vibes?: UserVibe[];
+  intentions?: UserIntention[];
+}
+
 export interface Interest {
   id: string;
   name: string;
@@ -53,6 +70,38 @@ export interface UserWithRelations extends User {
   clubs: { name: Club }[];
 }
 
+// A discovery feed profile with its ranking and the "why you're seeing this" reasons
+export interface DiscoveryCandidate extends UserWithRelations {
+  score: number;
+  reasons: string[];
+  superLikedMe: boolean;
+  distanceBucket: DistanceBucket | null;
+}
+
+// How far away someone is, as computed server-side by get_distance_buckets. Exact locations never leave the server.
+export type DistanceBucket = 'under_200m' | 'under_500m' | 'under_1km' | 'under_2km' | 'far';
+
+// The user's own saved location; only they can read it
+export interface UserLocation {
+  user_id: string;
+  building_id: string;
+  latitude: number;
+  longitude: number;
+  updated_at?: string;
+  building?: CampusBuilding | null;
+}
+
+// What recording a swipe did
+export interface SwipeResult {
+  matched: boolean;
+  matchId: string | null;
+}
+
+// Someone who liked the current user and is waiting on a swipe back
+export interface Admirer extends UserWithRelations {
+  superLikedMe: boolean;
+}
+
 // Add the CampusBuilding interface
 export interface CampusBuilding {
   id: string;
@@ -61,6 +110,65 @@ export interface CampusBuilding {
   longitude: number;
 }
 
+export type HotZoneEventCategory = 'prade' | 'tent_party' | 'lecture' | 'brunch' | 'other';
+
+export interface HotZoneEvent {
+  id: string;
+  hot_zone_id: string;
+  name: string;
+  description?: string | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  category?: HotZoneEventCategory | null;
+  host_class_year?: string | null;
+  created_at?: string;
+}
+
+export interface HotZone {
+  id: string;
+  name: string;
+  description?: string | null;
+  image_url?: string | null;
+  distance?: string | null;
+  active_users: number;
+  latitude?: number | null;
+  longitude?: number | null;
+  radius_m?: number | null;
+  occupancy_updated_at?: string | null;
+  events?: HotZoneEvent[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A match who RSVP'd to a hot zone event
+export interface EventRsvpMatch {
+  eventId: string;
+  matchId: string;
+  authId: string;
+  name: string;
+  photoUrl: string | null;
+}
+
+export type ZoneCheckInSource = 'manual' | 'geofence';
+
+export interface ZoneCheckIn {
+  id: string;
+  user_id: string;
+  hot_zone_id: string;
+  source: ZoneCheckInSource;
+  checked_in_at: string;
+  expires_at: string;
+}
+
+// A match who is around a hot zone right now
+export interface NearbyMatch {
+  matchId: string;
+  authId: string;
+  name: string;
+  photoUrl: string | null;
+  lastActiveAt: string | null;
+}
+
 // Add the Message interface
 export interface Message {
   id: string;
@@ -68,5 +176,112 @@ export interface Message {
   sender_id: string;
   message: string;
   read: boolean;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  client_id?: string | null;
+  image_path?: string | null;
+  image_thumb_path?: string | null;
+  reply_to_id?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  // Emoji reactions keyed by the reacting user's ID
+  reactions?: Record<string, string>;
+  created_at: string;
+}
+
+// Storage paths of a photo sent in chat
+export interface MessageAttachment {
+  image_path: string;
+  image_thumb_path: string;
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+// One page of chat history, oldest message first
+export interface MessagePage {
+  messages: Message[];
+  // created_at of the oldest message in the page, or null when there is no older history
+  nextCursor: string | null;
+}
+
+// A match as shown in the matches list
+export interface MatchSummary {
+  matchId: string;
+  userId: string;
+  name: string;
+  photoUrl: string | null;
+  lastActivity: string;
+  unread: boolean;
+  unreadCount: number;
+  lastMessage: string | null;
+  lastMessageTime: string;
+}
+
+export type ReportType = 'inappropriate' | 'harassment' | 'fake' | 'technical' | 'other';
+export type ReportStatus = 'open' | 'reviewing' | 'actioned' | 'dismissed';
+
+export interface Report {
+  id: string;
+  reporter_id: string;
+  reported_user_id?: string | null;
+  match_id?: string | null;
+  message_id?: string | null;
+  message_snapshot?: string | null;
+  type: ReportType;
+  details: string;
+  screenshot_paths: string[];
+  status: ReportStatus;
+  created_at: string;
+  updated_at: string;
+  reported_user?: Pick<User, 'id' | 'auth_id' | 'name' | 'photo_urls'> | null;
+}
+
+// Everything a moderator needs to review a report
+export interface ReportWithUsers extends Omit<Report, 'reported_user'> {
+  reporter: Pick<User, 'id' | 'auth_id' | 'name'> | null;
+  reported_user: UserWithRelations | null;
+}
+
+export type ModerationActionType =
+  'review' | 'dismiss' | 'warn' | 'suspend' | 'ban' | 'remove_photos' | 'reinstate' | 'uphold';
+
+export interface ModerationAction {
+  id: string;
+  moderator_id: string | null;
+  target_user_id: string | null;
+  report_id: string | null;
+  action: ModerationActionType;
+  reason: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+  moderator?: Pick<User, 'id' | 'name'> | null;
+}
+
+// Staff role and moderation state, from the owner/staff-only account_moderation table
+export interface AccountModeration {
+  user_id: string;
+  staff_role: StaffRole | null;
+  account_status: AccountStatus;
+  suspended_until: string | null;
+  status_reason: string | null;
+}
+
+// Why a signed-in user can't use the app right now
+export interface AccountRestriction {
+  status: 'suspended' | 'banned';
+  until: string | null;
+  reason: string | null;
+}
+
+export type AppealStatus = 'pending' | 'upheld' | 'overturned';
+
+export interface Appeal {
+  id: string;
+  user_id: string;
+  message: string;
+  status: AppealStatus;
+  resolution_note: string | null;
   created_at: string;
+  resolved_at: string | null;
+  user?: Pick<User, 'id' | 'name' | 'moderation'> | null;
 }